@@ -1,18 +1,161 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
 import { INITIAL_PROJECT } from './initialProject';
 import LoadingSpinner from './components/Spinner';
+import RecoveryPanel from './components/RecoveryPanel';
+import ProjectMenu from './components/ProjectMenu';
+import SafeModeBanner from './components/SafeModeBanner';
+import BootCandidatePanel from './components/BootCandidatePanel';
+import VaultPanel from './components/VaultPanel';
+import {
+  ProjectFiles,
+  ProjectHistory,
+  EMPTY_HISTORY,
+  HISTORY_DOCUMENT,
+  HISTORY_STORAGE_KEY,
+  MANUAL_EDIT_LABEL,
+  parseHistory,
+  recordChange,
+  checkout,
+} from './bios/history';
+import {
+  RESTORE_LABEL,
+  LAST_KNOWN_GOOD_DOCUMENT,
+  LAST_KNOWN_GOOD_STORAGE_KEY,
+  parseLastKnownGood,
+  restoreFromLastKnownGood,
+} from './bios/recovery';
+import {
+  Cassette,
+  CassetteEntry,
+  GenerateOptions,
+  LlmRequest,
+  LlmSettings,
+  CASSETTE_DOCUMENT,
+  CASSETTE_STORAGE_KEY,
+  DEFAULT_LLM_SETTINGS,
+  EMPTY_CASSETTE,
+  addRecording,
+  describeProviders,
+  generateJson,
+  keyOriginsFor,
+  loadLlmSettings,
+  parseCassette,
+  parseStoredCassette,
+  saveLlmSettings,
+} from './bios/providers';
+import {
+  DocumentWriter,
+  FileWriter,
+  StorageStatus,
+  INITIAL_STORAGE_STATUS,
+  LEGACY_PROJECT_STORAGE_KEY,
+  clearStoredDocuments,
+  clearStoredFiles,
+  createDocumentWriter,
+  createFileWriter,
+  estimateUsage,
+  loadStoredDocument,
+  loadStoredFiles,
+  measureProject,
+  migrateLegacyStorage,
+  replaceStoredFiles,
+} from './bios/storage';
+import {
+  ImportMode,
+  ProjectBundle,
+  IMPORT_LABEL,
+  createBundle,
+  importedFiles,
+} from './bios/bundle';
+import {
+  ProjectRegistry,
+  clearProjectScopedKeys,
+  createProject,
+  deleteProject,
+  loadProjectRegistry,
+  renameProject,
+  setActiveProject,
+} from './bios/projects';
+import { SAFE_MODE_KEY, clearSafeModeFlag, isSafeModeRequested } from './bios/safeMode';
+import { bootModuleSource, compileBootloader, precompileBootModules } from './bios/bootCompiler';
+import { getCompiler } from './bios/compiler';
+import { getDevConsole } from './bios/devConsole';
+import { createPreviewService } from './bios/previewBridge';
+import { VaultStatus, getVault } from './bios/vault';
+import {
+  CHAT_SESSIONS_DOCUMENT,
+  CHAT_SESSIONS_STORAGE_KEY,
+  ChatSessions,
+  EMPTY_CHAT_SESSIONS,
+  parseChatSessions,
+  parseStoredChatSessions,
+} from './bios/sessions';
+import {
+  BOOT_SLOTS_DOCUMENT,
+  BOOT_SLOTS_STORAGE_KEY,
+  BootSlots,
+  DISCARD_CANDIDATE_LABEL,
+  createBootSlots,
+  findCandidate,
+  parseBootSlots,
+  promoteCandidate,
+  rollBackBootSlot,
+  sameFiles,
+  withSlotFiles,
+} from './bios/bootSlots';
+import { HealthCheckResult, checkBootCandidate } from './bios/healthCheck';
 
-// This global is available because we added the Babel script in index.html
-declare var Babel: any;
+// How the storage status names each project document when it cannot be saved.
+const DOCUMENT_LABELS: Record<string, string> = {
+  [HISTORY_DOCUMENT]: 'the history',
+  [LAST_KNOWN_GOOD_DOCUMENT]: 'the last working version',
+  [CASSETTE_DOCUMENT]: 'the LLM cassette',
+  [CHAT_SESSIONS_DOCUMENT]: 'the chat sessions',
+  [BOOT_SLOTS_DOCUMENT]: 'the boot slots',
+};
 
-const LOCAL_STORAGE_KEY = 'self-evolving-project-files-v2';
+// Wipes everything stored for one project; it starts over from INITIAL_PROJECT on the next load.
+const clearProjectStorage = async (projectId: string) => {
+  clearProjectScopedKeys(projectId);
+  // A leftover pre-IndexedDB blob would otherwise be migrated into the reset project.
+  window.localStorage.removeItem(LEGACY_PROJECT_STORAGE_KEY);
+  try {
+    await clearStoredFiles(projectId);
+    await clearStoredDocuments(projectId);
+  } catch (e) {
+    console.error("Failed to clear the project from IndexedDB", e);
+  }
+};
+
+interface LoadedProject {
+  files: ProjectFiles;
+  history: ProjectHistory;
+  lastKnownGood: ProjectFiles | null;
+  cassette: Cassette;
+  chatSessions: ChatSessions;
+  // Null for a project without stored boot slots.
+  bootSlots: BootSlots | null;
+  // Both null when nothing can be persisted.
+  writer: FileWriter | null;
+  documentWriter: DocumentWriter | null;
+  error: string | null;
+}
 
 // A React Error Boundary component defined directly in the BIOS.
 // This acts as a top-level safety net to catch runtime errors from the dynamic
 // application (Bootloader, Kernel, etc.) and prevent a total crash.
 interface ErrorBoundaryProps {
   children: React.ReactNode;
+  // Rendered below the error so the user can roll back instead of resetting.
+  recoveryPanel?: React.ReactNode;
+  // When this value changes (e.g. after a restore) the boundary clears its error and retries.
+  resetKey?: unknown;
+  onFactoryReset: () => void;
+  // Omitted while already in safe mode.
+  onSafeMode?: () => void;
 }
 
 interface ErrorBoundaryState {
@@ -38,12 +181,11 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
     console.error("Caught a runtime error in a child component:", error, errorInfo);
   }
 
-  handleReset = () => {
-    if (window.confirm("Are you sure? This will reset the entire project to its factory state.")) {
-        window.localStorage.removeItem(LOCAL_STORAGE_KEY);
-        window.location.reload();
+  componentDidUpdate(prevProps: ErrorBoundaryProps) {
+    if (this.state.hasError && prevProps.resetKey !== this.props.resetKey) {
+      this.setState({ hasError: false, error: null, errorInfo: null });
     }
-  };
+  }
 
   render() {
     if (this.state.hasError) {
@@ -57,11 +199,19 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
                   {this.state.error?.toString()}
                   {this.state.errorInfo && `\n\nComponent Stack:\n${this.state.errorInfo.componentStack}`}
                 </pre>
+                {this.props.recoveryPanel}
                  <button 
-                    onClick={this.handleReset}
+                    onClick={this.props.onFactoryReset}
                     className="mt-4 bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded">
                     Factory Reset
                  </button>
+                 {this.props.onSafeMode && (
+                   <button
+                      onClick={this.props.onSafeMode}
+                      className="mt-4 ml-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded">
+                      Boot in Safe Mode
+                   </button>
+                 )}
             </div>
         </div>
       );
@@ -71,57 +221,417 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
 }
 
 
-/**
- * Pre-scans and sanitizes code for common Babel parsing errors.
- * This acts as a safety net to fix trivial syntax issues that might
- * be introduced by AI, preventing the entire BIOS from crashing.
- * @param code The raw source code string.
- * @returns The sanitized code string.
- */
-const sanitizeCodeForBabel = (code: string): string => {
-  // Fixes invalid Unicode escape sequences in strings which is a common Babel error.
-  // e.g., a string like "hello \world" would crash Babel. This regex finds
-  // backslashes that are NOT part of a valid escape sequence (like \n, \t, \', \", \\)
-  // or a valid unicode sequence (\uXXXX) and escapes the backslash itself.
-  return code.replace(/\\(?![nt'"\\/]|u[0-9a-fA-F]{4})/g, '\\\\');
-};
-
 
 // This is the static "BIOS" of the application.
 // Its job is to load external dependencies for the OS, then load the project files
 // and hand off control to the dynamic bootloader.
 const App: React.FC = () => {
-  const [projectFiles, setProjectFiles] = useState<Record<string, string>>(() => {
-    try {
-      const saved = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-      return saved ? JSON.parse(saved) : INITIAL_PROJECT;
-    } catch (e) {
-      console.error("Failed to load project from localStorage", e);
-      return INITIAL_PROJECT;
-    }
-  });
+  const [projectRegistry, setProjectRegistry] = useState<ProjectRegistry>(loadProjectRegistry);
+  const projectRegistryRef = useRef(projectRegistry);
+  // Fixed for the lifetime of the page: switching projects reloads it.
+  const [projectId] = useState(projectRegistry.activeId);
+
+  // Null until the files have been read from IndexedDB.
+  const [projectFiles, setProjectFiles] = useState<ProjectFiles | null>(null);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus>(INITIAL_STORAGE_STATUS);
+  const fileWriterRef = useRef<FileWriter | null>(null);
+  const documentWriterRef = useRef<DocumentWriter | null>(null);
+
+  // Loaded from IndexedDB together with the files.
+  const [history, setHistory] = useState<ProjectHistory>(EMPTY_HISTORY);
+  const [lastKnownGood, setLastKnownGood] = useState<ProjectFiles | null>(null);
+
+  // Refs mirror the latest state so the stable callbacks below can diff against it.
+  const projectFilesRef = useRef<ProjectFiles>({});
+  const historyRef = useRef(history);
+  const lastKnownGoodRef = useRef(lastKnownGood);
+
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(() => loadLlmSettings(projectId));
+  const llmSettingsRef = useRef(llmSettings);
+  const [cassette, setCassette] = useState<Cassette>(EMPTY_CASSETTE);
+  const cassetteRef = useRef(cassette);
+  const [chatSessions, setChatSessions] = useState<ChatSessions>(EMPTY_CHAT_SESSIONS);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => getVault().getStatus());
+  // Null while closed; otherwise why the API key screen was opened, if there is a reason to show.
+  const [vaultRequest, setVaultRequest] = useState<{ reason: string | null } | null>(null);
 
   const [externalModules, setExternalModules] = useState<Record<string, any> | null>(null);
   const [BootloaderComponent, setBootloaderComponent] = useState<React.ComponentType<any> | null>(null);
+
+  const [safeMode, setSafeMode] = useState(() => isSafeModeRequested());
+  // Null until the project is loaded for the first time.
+  const [bootSlots, setBootSlots] = useState<BootSlots | null>(null);
+  // The latest health check and the candidate boot files it ran against; a null result means it is running.
+  const [healthCheck, setHealthCheck] = useState<{ candidate: ProjectFiles; result: HealthCheckResult | null } | null>(null);
+  // Why the last promotion could not be saved, if it could not.
+  const [promoteError, setPromoteError] = useState<string | null>(null);
+  // What the bootloader was last rendered with; set during render, below.
+  const bootloaderPropsRef = useRef<Record<string, any>>({});
+
+  // The files the bootloader is compiled from: the active boot slot, or the factory
+  // files in safe mode. Editing the project's boot files does not change them.
+  const bootFiles = !projectFiles ? null : safeMode ? INITIAL_PROJECT : bootSlots?.active.files ?? null;
+  // The files the kernel runs from: the project files under the same boot files.
+  const kernelFiles = useMemo(() => {
+    if (safeMode) return INITIAL_PROJECT;
+    return projectFiles && bootSlots ? withSlotFiles(projectFiles, bootSlots.active) : null;
+  }, [safeMode, projectFiles, bootSlots]);
+  // Also offered in safe mode and on the BIOS error screen: promoting a repaired
+  // candidate is how a broken active slot gets fixed.
+  const bootCandidate = useMemo(
+    () => (projectFiles && bootSlots ? findCandidate(projectFiles, bootSlots) : null),
+    [projectFiles, bootSlots]
+  );
   const [biosError, setBiosError] = useState<string | null>(null);
 
-  const saveProjectFiles = useCallback((files: Record<string, string>) => {
+  // Step 0: BIOS reads the project files and documents, moving what an older version saved over from localStorage.
+  useEffect(() => {
+    const loadProject = async (): Promise<LoadedProject> => {
+      const updateStatus = (update: Partial<StorageStatus>) => setStorageStatus(prev => ({ ...prev, ...update }));
       try {
-        const stateToSave = JSON.stringify(files);
-        window.localStorage.setItem(LOCAL_STORAGE_KEY, stateToSave);
-        setProjectFiles(files);
-      } catch (e) {
-        console.error("Failed to save project to localStorage", e);
-        setBiosError("Failed to save project files. Check console for details.");
+        let files = (await loadStoredFiles(projectId)) ?? (await migrateLegacyStorage(projectId));
+        if (!files) {
+          files = INITIAL_PROJECT;
+          // Later saves only write the files that changed, so the full set has to be stored once.
+          await replaceStoredFiles(projectId, files);
+        }
+        return {
+          files,
+          history: parseHistory(await loadStoredDocument(projectId, HISTORY_DOCUMENT, HISTORY_STORAGE_KEY)),
+          lastKnownGood: parseLastKnownGood(
+            await loadStoredDocument(projectId, LAST_KNOWN_GOOD_DOCUMENT, LAST_KNOWN_GOOD_STORAGE_KEY)
+          ),
+          cassette: parseStoredCassette(await loadStoredDocument(projectId, CASSETTE_DOCUMENT, CASSETTE_STORAGE_KEY)),
+          chatSessions: parseStoredChatSessions(
+            await loadStoredDocument(projectId, CHAT_SESSIONS_DOCUMENT, CHAT_SESSIONS_STORAGE_KEY)
+          ),
+          bootSlots: parseBootSlots(await loadStoredDocument(projectId, BOOT_SLOTS_DOCUMENT, BOOT_SLOTS_STORAGE_KEY)),
+          writer: createFileWriter(projectId, updateStatus),
+          documentWriter: createDocumentWriter(projectId, DOCUMENT_LABELS, updateStatus),
+          error: null,
+        };
+      } catch (e: any) {
+        console.error("Failed to load project from IndexedDB", e);
+        // The OS still runs, but nothing it changes survives a reload.
+        const saved = window.localStorage.getItem(LEGACY_PROJECT_STORAGE_KEY);
+        return {
+          files: saved ? JSON.parse(saved) : INITIAL_PROJECT,
+          history: EMPTY_HISTORY,
+          lastKnownGood: null,
+          cassette: EMPTY_CASSETTE,
+          chatSessions: EMPTY_CHAT_SESSIONS,
+          bootSlots: null,
+          writer: null,
+          documentWriter: null,
+          error: `Project storage is unavailable (${e.message}). Changes will be lost on reload.`,
+        };
+      }
+    };
+
+    loadProject().then(async ({ files, history, lastKnownGood, cassette, chatSessions, bootSlots, writer, documentWriter, error }) => {
+      fileWriterRef.current = writer;
+      documentWriterRef.current = documentWriter;
+      historyRef.current = history;
+      setHistory(history);
+      lastKnownGoodRef.current = lastKnownGood;
+      setLastKnownGood(lastKnownGood);
+      cassetteRef.current = cassette;
+      setCassette(cassette);
+      setChatSessions(chatSessions);
+      projectFilesRef.current = files;
+      setProjectFiles(files);
+      if (bootSlots) {
+        setBootSlots(bootSlots);
+      } else {
+        // A new project, or one from before boot slots existed: what it has now is what boots.
+        const slots = createBootSlots(files);
+        documentWriter?.schedule(BOOT_SLOTS_DOCUMENT, slots);
+        setBootSlots(slots);
+      }
+      setStorageStatus(prev => ({
+        ...prev,
+        backend: writer ? 'indexeddb' : 'memory',
+        projectBytes: measureProject(files),
+        error,
+      }));
+      const usage = await estimateUsage();
+      setStorageStatus(prev => ({ ...prev, ...usage }));
+    }).catch(e => {
+      console.error("BIOS Error: Failed to load project", e);
+      setBiosError(`Failed to load the project files. ${e.message}`);
+    });
+  }, [projectId]);
+
+  // Writes everything the file and document writers have queued.
+  const flushWriters = useCallback(async () => {
+      await Promise.all([fileWriterRef.current?.flush(), documentWriterRef.current?.flush()]);
+  }, []);
+
+  // Drops everything queued, so it cannot land after the stored project has been wiped.
+  const cancelWriters = useCallback(async () => {
+      await Promise.all([fileWriterRef.current?.cancel(), documentWriterRef.current?.cancel()]);
+  }, []);
+
+  // Pending writes are debounced; get them out before the page goes away.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushWriters();
+    };
+    window.addEventListener('pagehide', flushWriters);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flushWriters);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [flushWriters]);
+
+  const writeProjectFiles = useCallback((files: ProjectFiles, nextHistory: ProjectHistory) => {
+      fileWriterRef.current?.schedule(projectFilesRef.current, files);
+      if (nextHistory !== historyRef.current) {
+        documentWriterRef.current?.schedule(HISTORY_DOCUMENT, nextHistory);
+      }
+      projectFilesRef.current = files;
+      historyRef.current = nextHistory;
+      setProjectFiles(files);
+      setHistory(nextHistory);
+  }, []);
+
+  // The label describes where the change came from (an evolution goal or a manual edit)
+  // and is shown in the kernel's history timeline.
+  const saveProjectFiles = useCallback((files: ProjectFiles, label: string = MANUAL_EDIT_LABEL) => {
+      if (files === projectFilesRef.current) {
+        return;
+      }
+      const nextHistory = recordChange(historyRef.current, projectFilesRef.current, files, label);
+      writeProjectFiles(files, nextHistory);
+  }, [writeProjectFiles]);
+
+  // Moves the project to any earlier (or undone) point in its history.
+  const checkoutHistory = useCallback((target: number) => {
+      const result = checkout(historyRef.current, projectFilesRef.current, target);
+      if (result) {
+        writeProjectFiles(result.files, result.history);
+      }
+  }, [writeProjectFiles]);
+
+  const handleUndo = useCallback(() => checkoutHistory(historyRef.current.cursor - 1), [checkoutHistory]);
+  const handleRedo = useCallback(() => checkoutHistory(historyRef.current.cursor + 1), [checkoutHistory]);
+
+  const handleEnterSafeMode = useCallback(() => setSafeMode(true), []);
+
+  const handleRebootNormally = useCallback(() => {
+      clearSafeModeFlag();
+      setSafeMode(false);
+  }, []);
+
+  // Rejects if the slots could not be stored. They then stay as they were, so the BIOS
+  // never shows a promotion or rollback that the next load would not boot.
+  const writeBootSlots = useCallback(async (slots: BootSlots) => {
+      await documentWriterRef.current?.write(BOOT_SLOTS_DOCUMENT, slots);
+      setBootSlots(slots);
+  }, []);
+
+  // Boots the boot files of `files` in the health check. Also offered to the OS, whose
+  // agent runs cannot boot the /boot files they change in the running kernel.
+  const checkBootFiles = useCallback((files: ProjectFiles): Promise<HealthCheckResult> => {
+      if (!externalModules) {
+        return Promise.resolve({ error: "The BIOS has not loaded its dependencies yet.", durationMs: 0 });
+      }
+      return checkBootCandidate(files, externalModules, bootloaderPropsRef.current)
+        .catch((e): HealthCheckResult => ({ error: `The health check could not run. ${e.message}`, durationMs: 0 }));
+  }, [externalModules]);
+
+  const handleTestBootCandidate = useCallback(() => {
+      if (!bootCandidate || !externalModules) {
+        return;
+      }
+      const candidate = bootCandidate;
+      setHealthCheck({ candidate, result: null });
+      setPromoteError(null);
+      checkBootFiles(projectFilesRef.current).then(result => {
+        // Ignore the result if another check has started in the meantime.
+        setHealthCheck(current => (current?.candidate === candidate ? { candidate, result } : current));
+      });
+  }, [bootCandidate, externalModules, checkBootFiles]);
+
+  // A check only counts for the exact boot files it ran against.
+  const candidateCheck = healthCheck && bootCandidate && sameFiles(healthCheck.candidate, bootCandidate) ? healthCheck : null;
+  const candidateIsHealthy = !!candidateCheck?.result && !candidateCheck.result.error;
+
+  const handlePromoteBootCandidate = useCallback(() => {
+      if (!bootSlots || !bootCandidate || !candidateIsHealthy) {
+        return;
+      }
+      setPromoteError(null);
+      writeBootSlots(promoteCandidate(bootSlots, bootCandidate)).then(
+        () => setHealthCheck(null),
+        (e: any) => setPromoteError(`The candidate was not promoted: saving the boot slots failed. ${e.message}`)
+      );
+  }, [bootSlots, bootCandidate, candidateIsHealthy, writeBootSlots]);
+
+  // Puts the project's boot files back to the active slot's.
+  const handleDiscardBootCandidate = useCallback(() => {
+      if (!bootSlots) {
+        return;
       }
+      saveProjectFiles(withSlotFiles(projectFilesRef.current, bootSlots.active), DISCARD_CANDIDATE_LABEL);
+      setHealthCheck(null);
+      setPromoteError(null);
+  }, [bootSlots, saveProjectFiles]);
+
+  const handleRollBackBootSlot = useCallback(async () => {
+      if (bootSlots?.previous) {
+        await writeBootSlots(rollBackBootSlot(bootSlots));
+      }
+  }, [bootSlots, writeBootSlots]);
+
+  // Holding the safe mode key while the BIOS is still starting up requests safe mode.
+  useEffect(() => {
+    if (BootloaderComponent || biosError) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === SAFE_MODE_KEY) {
+        setSafeMode(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [BootloaderComponent, biosError]);
+
+  // Called by the bootloader once the kernel has booted and stayed up.
+  // What booted is the project under the active boot slot, not an untested candidate.
+  const handleBootSuccess = useCallback(() => {
+      const files = kernelFiles;
+      if (files && files !== lastKnownGoodRef.current) {
+        lastKnownGoodRef.current = files;
+        documentWriterRef.current?.schedule(LAST_KNOWN_GOOD_DOCUMENT, files);
+        setLastKnownGood(files);
+      }
+  }, [kernelFiles]);
+
+  const handleRestoreLastKnownGood = useCallback((paths: string[]) => {
+      if (!lastKnownGood || paths.length === 0) {
+        return;
+      }
+      saveProjectFiles(restoreFromLastKnownGood(projectFilesRef.current, lastKnownGood, paths), RESTORE_LABEL);
+  }, [lastKnownGood, saveProjectFiles]);
+
+  const handleLlmSettingsChange = useCallback((settings: LlmSettings) => {
+      llmSettingsRef.current = settings;
+      saveLlmSettings(projectId, settings);
+      setLlmSettings(settings);
+  }, [projectId]);
+
+  // Throws on a malformed document, like the cassette handler below.
+  const handleChatSessionsChange = useCallback((next: unknown) => {
+      const sessions = parseChatSessions(next);
+      documentWriterRef.current?.schedule(CHAT_SESSIONS_DOCUMENT, sessions);
+      setChatSessions(sessions);
   }, []);
 
+  const writeCassette = useCallback((next: Cassette) => {
+      cassetteRef.current = next;
+      documentWriterRef.current?.schedule(CASSETTE_DOCUMENT, next);
+      setCassette(next);
+  }, []);
+
+  // Throws on malformed cassette files so the settings panel can report the problem.
+  const handleCassetteChange = useCallback((next: unknown) => {
+      writeCassette(parseCassette(next));
+  }, [writeCassette]);
+
+  useEffect(() => {
+      const vault = getVault();
+      setVaultStatus(vault.getStatus());
+      return vault.subscribe(() => setVaultStatus(vault.getStatus()));
+  }, []);
+
+  const handleOpenVault = useCallback((reason?: string) => setVaultRequest({ reason: reason ?? null }), []);
+
+  // The OS calls models only through this object, a capability rather than a key:
+  // the BIOS picks the provider and model, adds the key from the vault, and
+  // records to or replays from the cassette.
+  const llm = useMemo(() => ({
+      generateJson: (request: LlmRequest, options: Omit<GenerateOptions, 'cassette'> = {}) => generateJson(llmSettingsRef.current, request, {
+          ...options,
+          cassette: {
+              cassette: cassetteRef.current,
+              record: (entry: CassetteEntry) => writeCassette(addRecording(cassetteRef.current, entry)),
+          },
+      }),
+  }), [writeCassette]);
+
+  // Runs the project in the OS's live preview; the preview's AI requests go through the same capability.
+  const preview = useMemo(() => createPreviewService(request => llm.generateJson(request)), [llm]);
+  // The OS validates /boot files with the same source transform the BIOS boots them with.
+  const compiler = useMemo(() => ({ ...getCompiler(), bootSource: bootModuleSource }), []);
+
+  const handleExportProject = useCallback((): ProjectBundle =>
+      createBundle(projectFilesRef.current, historyRef.current, llmSettingsRef.current), []);
+
+  // Imported files go through the same save path as any other change, so the
+  // bootloader is recompiled from them exactly like after an evolution.
+  const handleImportProject = useCallback((bundle: ProjectBundle, mode: ImportMode) => {
+      const files = importedFiles(projectFilesRef.current, bundle, mode);
+      if (mode === 'replace' && bundle.history) {
+        // The bundle's history describes how its own files came about, so it replaces ours.
+        writeProjectFiles(files, bundle.history);
+      } else {
+        writeProjectFiles(files, recordChange(historyRef.current, projectFilesRef.current, files, IMPORT_LABEL));
+      }
+      if (mode === 'replace' && bundle.llmSettings) {
+        // Where requests go stays this browser's choice; a bundle must not redirect them.
+        const { baseUrl: _baseUrl, ...imported } = bundle.llmSettings;
+        handleLlmSettingsChange({ ...DEFAULT_LLM_SETTINGS, ...imported, baseUrl: llmSettingsRef.current.baseUrl });
+      }
+  }, [writeProjectFiles, handleLlmSettingsChange]);
+
   const handleFactoryReset = useCallback(() => {
     if (window.confirm("Are you sure? This will reset the entire project to its factory state and reload the application.")) {
-        window.localStorage.removeItem(LOCAL_STORAGE_KEY);
-        window.location.reload();
+        // Queued writes must not land after the stored files have been cleared.
+        cancelWriters()
+            .then(() => clearProjectStorage(projectId))
+            .then(() => window.location.reload());
     }
+  }, [projectId, cancelWriters]);
+
+  // Project management for the BIOS menu. Errors propagate so the menu can show them.
+  const updateProjectRegistry = useCallback((next: ProjectRegistry) => {
+      projectRegistryRef.current = next;
+      setProjectRegistry(next);
   }, []);
+
+  const handleCreateProject = useCallback(async (name: string, sourceId: string | null) => {
+      if (sourceId === projectId) {
+        // The copy is read from storage, so queued edits have to be in it first.
+        await flushWriters();
+      }
+      const result = await createProject(projectRegistryRef.current, name, sourceId ? { sourceId } : { files: INITIAL_PROJECT });
+      updateProjectRegistry(result.registry);
+      return result.id;
+  }, [projectId, updateProjectRegistry, flushWriters]);
+
+  const handleSwitchProject = useCallback(async (id: string) => {
+      await flushWriters();
+      setActiveProject(projectRegistryRef.current, id);
+      window.location.reload();
+  }, [flushWriters]);
+
+  const handleRenameProject = useCallback((id: string, name: string) => {
+      updateProjectRegistry(renameProject(projectRegistryRef.current, id, name));
+  }, [updateProjectRegistry]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+      if (id === projectId) {
+        await cancelWriters();
+      }
+      updateProjectRegistry(await deleteProject(projectRegistryRef.current, id));
+      if (id === projectId) {
+        // The registry already points at another project; boot that one.
+        window.location.reload();
+      }
+  }, [projectId, updateProjectRegistry, cancelWriters]);
   
   // Step 1: BIOS loads critical external dependencies for the OS (Bootloader)
   useEffect(() => {
@@ -132,6 +642,8 @@ const App: React.FC = () => {
             setExternalModules({
                 '@google/genai': genaiModule,
                 'react': React, // Provide React through the same mechanism for consistency
+                'react-dom': ReactDOM,
+                'react-dom/client': ReactDOMClient,
             });
             console.log("BIOS: Dependencies loaded successfully.");
         })
@@ -143,62 +655,119 @@ const App: React.FC = () => {
 
   // Step 2: Once dependencies are loaded, BIOS transpiles and runs the OS (Bootloader)
   useEffect(() => {
-    // Wait for external modules to be loaded by the BIOS.
-    if (!externalModules) {
+    // Wait for external modules to be loaded by the BIOS, and for the project files.
+    if (!externalModules || !bootFiles) {
         return;
     }
 
-    console.log("BIOS: Loading dynamic bootloader...");
+    console.log(safeMode ? "BIOS: Loading factory bootloader (safe mode)..." : "BIOS: Loading dynamic bootloader...");
     // Reset component and error state before trying to load
     setBootloaderComponent(null);
     setBiosError(null);
 
-    try {
-      const bootloaderCode = projectFiles['/boot/bootloader.tsx'];
-      if (!bootloaderCode) {
-        throw new Error("Critical file /boot/bootloader.tsx not found in project.");
-      }
-
-      const sanitizedCode = sanitizeCodeForBabel(bootloaderCode);
-
-      const transformedCode = Babel.transform(sanitizedCode, {
-          filename: '/boot/bootloader.tsx',
-          presets: ['react', 'typescript'],
-          plugins: [['transform-modules-commonjs', { "strictMode": false }]]
-      }).code;
-
-      const module: { exports: any } = { exports: {} };
-      // The 'process' object is injected for the bootloader to access environment variables.
-      const factory = new Function('React', 'require', 'module', 'exports', 'process', transformedCode);
-      
-      const biosRequire = (path: string) => {
-          if (externalModules[path]) {
-              return externalModules[path];
-          }
-          throw new Error(`BIOS does not support require. Path: ${path}`);
-      };
-
-      // Create a process stub for the sandboxed environment of the bootloader.
-      // NOTE: This assumes process.env.API_KEY is available in the main app's context.
-      const processStub = {
-          env: {
-              API_KEY: process.env.API_KEY
-          }
-      };
-
-      factory(React, biosRequire, module, module.exports, processStub);
-
-      const mainComponent = module.exports.default;
-      if (typeof mainComponent !== 'function') {
-        throw new Error("Bootloader component did not export a default React component.");
-      }
-
-      setBootloaderComponent(() => mainComponent);
-    } catch(e: any) {
-      console.error("BIOS Error:", e);
-      setBiosError(e.message);
-    }
-  }, [projectFiles, externalModules]); // Re-run when files change OR when modules are loaded
+    // Babel runs in the compile worker; only evaluating the result happens here.
+    let cancelled = false;
+    precompileBootModules(bootFiles, getCompiler()).then(precompiled => {
+      if (cancelled) {
+        return;
+      }
+      try {
+        const mainComponent = compileBootloader(bootFiles, externalModules, window, precompiled);
+        setBootloaderComponent(() => mainComponent);
+      } catch(e: any) {
+        console.error("BIOS Error:", e);
+        setBiosError(e.message);
+      }
+    }).catch(e => {
+      if (cancelled) {
+        return;
+      }
+      // The error screen offers recovery, safe mode and a factory reset.
+      console.error("BIOS Error: Failed to compile the bootloader", e);
+      setBiosError(`Failed to compile the bootloader. ${e.message}`);
+    });
+    return () => { cancelled = true; };
+  }, [bootFiles, externalModules, safeMode]); // Re-run when files change OR when modules are loaded
+
+  const recoveryPanel = projectFiles && (
+    <RecoveryPanel
+      currentFiles={projectFiles}
+      lastKnownGood={lastKnownGood}
+      onRestore={handleRestoreLastKnownGood}
+    />
+  );
+
+  const projectMenu = (
+    <ProjectMenu
+      registry={projectRegistry}
+      onCreateProject={handleCreateProject}
+      onSwitchProject={handleSwitchProject}
+      onRenameProject={handleRenameProject}
+      onDeleteProject={handleDeleteProject}
+      onExport={projectFiles ? handleExportProject : null}
+      onImport={handleImportProject}
+      bootSlots={bootSlots}
+      onRollBackBootSlot={handleRollBackBootSlot}
+      onOpenKeys={() => handleOpenVault()}
+    />
+  );
+
+  const llmProviders = describeProviders(vaultStatus);
+
+  // The health check renders candidates with these props too, with its own stubs for the callbacks.
+  const bootloaderProps = {
+    initialFiles: projectFiles,
+    onSaveFiles: saveProjectFiles,
+    onFactoryReset: handleFactoryReset,
+    // A build booted from factory files says nothing about the project's own boot code.
+    onBootSuccess: safeMode ? undefined : handleBootSuccess,
+    kernelFiles,
+    onSafeMode: safeMode ? undefined : handleEnterSafeMode,
+    llm,
+    llmSettings,
+    llmProviders,
+    onLlmSettingsChange: handleLlmSettingsChange,
+    onOpenKeySettings: handleOpenVault,
+    llmCassette: cassette,
+    onLlmCassetteChange: handleCassetteChange,
+    chatSessions,
+    onChatSessionsChange: handleChatSessionsChange,
+    recoveryPanel,
+    history,
+    onUndo: handleUndo,
+    onRedo: handleRedo,
+    onHistoryCheckout: checkoutHistory,
+    storageStatus,
+    compiler,
+    devConsole: getDevConsole(),
+    preview,
+    checkBootFiles,
+  };
+  bootloaderPropsRef.current = bootloaderProps;
+
+  const vaultPanel = vaultRequest && (
+    <VaultPanel
+      vault={getVault()}
+      status={vaultStatus}
+      providers={llmProviders}
+      reason={vaultRequest.reason}
+      endpointOrigins={keyOriginsFor(llmSettings)}
+      onClose={() => setVaultRequest(null)}
+    />
+  );
+
+  const bootCandidatePanel = bootCandidate && bootSlots && (
+    <BootCandidatePanel
+      candidate={bootCandidate}
+      activeSlot={bootSlots.active}
+      isTesting={!!candidateCheck && !candidateCheck.result}
+      result={candidateCheck?.result ?? null}
+      promoteError={promoteError}
+      onTest={handleTestBootCandidate}
+      onPromote={handlePromoteBootCandidate}
+      onDiscard={handleDiscardBootCandidate}
+    />
+  );
 
   if (biosError) {
     return (
@@ -207,29 +776,48 @@ const App: React.FC = () => {
                 <strong className="font-bold">Fatal BIOS Error!</strong>
                 <p className="mt-2 text-sm">The core bootloader failed to load. The application cannot start. You may need to reset the project.</p>
                 <pre className="text-xs whitespace-pre-wrap mt-2 font-mono bg-red-950/50 p-2 rounded">{biosError}</pre>
+                {recoveryPanel}
                  <button 
                     onClick={handleFactoryReset}
                     className="mt-4 bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded">
                     Factory Reset
                  </button>
+                 {!safeMode && projectFiles && (
+                   <button
+                      onClick={handleEnterSafeMode}
+                      className="mt-4 ml-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded">
+                      Boot in Safe Mode
+                   </button>
+                 )}
             </div>
+            {bootCandidatePanel}
+            {projectMenu}
+            {vaultPanel}
         </div>
     );
   }
 
   // Show loading spinner while dependencies are loading or bootloader is compiling
-  if (!BootloaderComponent || !externalModules) {
+  if (!BootloaderComponent || !externalModules || !projectFiles) {
     return <div className="w-full h-screen flex items-center justify-center"><LoadingSpinner /></div>;
   }
 
   return (
-    <ErrorBoundary>
-      <BootloaderComponent 
-        initialFiles={projectFiles} 
-        onSaveFiles={saveProjectFiles}
-        onFactoryReset={handleFactoryReset} 
-      />
-    </ErrorBoundary>
+    <>
+      <ErrorBoundary
+        recoveryPanel={recoveryPanel}
+        // Changes after a restore, and whenever a different bootloader or kernel boots.
+        resetKey={kernelFiles}
+        onFactoryReset={handleFactoryReset}
+        onSafeMode={safeMode ? undefined : handleEnterSafeMode}
+      >
+        <BootloaderComponent {...bootloaderProps} />
+      </ErrorBoundary>
+      {safeMode && <SafeModeBanner onRebootNormally={handleRebootNormally} />}
+      {bootCandidatePanel}
+      {projectMenu}
+      {vaultPanel}
+    </>
   );
 };
 
@@ -0,0 +1,154 @@
+// Compiles and evaluates the bootloader and its helper modules (/boot/lib/*).
+// Both the BIOS boot and the boot slot health check use it, so a candidate is
+// checked with exactly the rules that will later boot it.
+import React from 'react';
+import { ProjectFiles } from './history';
+import { CompileConfig, Compiler, withSourceMap } from './compiler';
+
+// This global is available because we added the Babel script in index.html
+declare var Babel: any;
+
+export const BOOTLOADER_PATH = '/boot/bootloader.tsx';
+
+const BOOT_BABEL_CONFIG: CompileConfig = {
+  presets: ['react', 'typescript'],
+  plugins: [['transform-modules-commonjs', { "strictMode": false }]],
+};
+
+/**
+ * Pre-scans and sanitizes code for common Babel parsing errors.
+ * This acts as a safety net to fix trivial syntax issues that might
+ * be introduced by AI, preventing the entire BIOS from crashing.
+ * @param code The raw source code string.
+ * @returns The sanitized code string.
+ */
+const sanitizeCodeForBabel = (code: string): string => {
+  // Fixes invalid Unicode escape sequences in strings which is a common Babel error.
+  // e.g., a string like "hello \world" would crash Babel. This regex finds
+  // backslashes that are NOT part of a valid escape sequence (like \n, \t, \', \", \\)
+  // or a valid unicode sequence (\uXXXX) and escapes the backslash itself.
+  return code.replace(/\\(?![nt'"\\/]|u[0-9a-fA-F]{4})/g, '\\\\');
+};
+
+/**
+ * Resolves an import made by a boot module (the bootloader or one of its helpers
+ * in /boot/lib) against the project files, using the same extension and index
+ * rules as the OS module loader.
+ * @returns The resolved VFS path, or null if no file matches.
+ */
+const resolveBootModulePath = (files: Record<string, string>, importerPath: string, importPath: string): string | null => {
+  const base = `file://${importerPath.substring(0, importerPath.lastIndexOf('/') + 1)}`;
+  const resolved = new URL(importPath, base).pathname;
+  const candidates = [resolved, `${resolved}.tsx`, `${resolved}.ts`, `${resolved}/index.tsx`, `${resolved}/index.ts`];
+  return candidates.find(path => Object.prototype.hasOwnProperty.call(files, path)) ?? null;
+};
+
+/**
+ * Returns the source a boot module is compiled from. The OS gets this through its
+ * compiler capability, so its validator compiles /boot files exactly as they will boot.
+ * The sanitizer is a safety net for the AI-written entry point only; helper
+ * modules may legitimately contain escapes (e.g. in regular expressions) it would break.
+ */
+export const bootModuleSource = (filePath: string, code: string): string =>
+  filePath === BOOTLOADER_PATH ? sanitizeCodeForBabel(code) : code;
+
+export interface CompiledBootModule {
+  code: string;
+  map: object | null;
+}
+
+/**
+ * Compiles the bootloader and the helper modules it imports with the given compiler,
+ * off the main thread when the compiler runs in a worker.
+ * @returns The compiled modules by path, for compileBootloader. A module that does not
+ *   compile is left out, so compileBootloader reports its error as before.
+ */
+export const precompileBootModules = async (files: ProjectFiles, compiler: Compiler): Promise<Record<string, CompiledBootModule>> => {
+  const compiled: Record<string, CompiledBootModule> = {};
+  const visited = new Set<string>();
+  const visit = async (filePath: string): Promise<void> => {
+    if (visited.has(filePath)) return;
+    visited.add(filePath);
+    const result = await compiler.compile({ filePath, code: bootModuleSource(filePath, files[filePath]), config: BOOT_BABEL_CONFIG });
+    if (result.code === null) return;
+    compiled[filePath] = { code: result.code, map: result.map };
+    const localImports = result.imports.filter(path => path.startsWith('.') || path.startsWith('/'));
+    await Promise.all(localImports.map(path => {
+      const resolvedPath = resolveBootModulePath(files, filePath, path);
+      return resolvedPath ? visit(resolvedPath) : undefined;
+    }));
+  };
+  if (files[BOOTLOADER_PATH]) {
+    await visit(BOOTLOADER_PATH);
+  }
+  return compiled;
+};
+
+/**
+ * Compiles the bootloader from the given files and returns its default export.
+ * @param externals Modules the boot code may import by name (React, @google/genai, ...).
+ * @param realm The global object the modules are evaluated in, so their globals
+ *   (document, timers, ...) are that window's.
+ * @param precompiled Output of precompileBootModules for these files. Modules missing
+ *   from it are compiled here, on the main thread.
+ * @throws If a module fails to compile or evaluate, or the bootloader exports no component.
+ */
+export const compileBootloader = (
+  files: ProjectFiles,
+  externals: Record<string, any>,
+  realm: Window = window,
+  precompiled: Record<string, CompiledBootModule> = {}
+): React.ComponentType<any> => {
+  const bootloaderCode = files[BOOTLOADER_PATH];
+  if (!bootloaderCode) {
+    throw new Error(`Critical file ${BOOTLOADER_PATH} not found in project.`);
+  }
+
+  // Boot code written for Node-style environments may read process.env. It is empty:
+  // secrets stay in the BIOS vault, and the OS calls the model through the `llm` prop.
+  const processStub = { env: {} };
+
+  // The bootloader may split its code into helper modules (e.g. /boot/lib/*),
+  // which are loaded from the project files the same way as the bootloader itself.
+  const moduleCache: Record<string, { exports: any }> = {};
+  const loadBootModule = (filePath: string): any => {
+      if (moduleCache[filePath]) {
+          return moduleCache[filePath].exports;
+      }
+
+      const sourceCode = bootModuleSource(filePath, files[filePath]);
+      const { code: transformedCode, map } = precompiled[filePath] ?? Babel.transform(sourceCode, {
+          filename: filePath,
+          ...BOOT_BABEL_CONFIG,
+          sourceMaps: true,
+      });
+
+      const module: { exports: any } = { exports: {} };
+      moduleCache[filePath] = module;
+      const RealmFunction: FunctionConstructor = (realm as any).Function;
+      const factory = new RealmFunction('React', 'require', 'module', 'exports', 'process', withSourceMap(transformedCode, map, filePath, sourceCode));
+
+      const biosRequire = (path: string) => {
+          if (externals[path]) {
+              return externals[path];
+          }
+          if (path.startsWith('.') || path.startsWith('/')) {
+              const resolvedPath = resolveBootModulePath(files, filePath, path);
+              if (!resolvedPath) {
+                  throw new Error(`Boot module not found: Can't import '${path}' from '${filePath}'`);
+              }
+              return loadBootModule(resolvedPath);
+          }
+          throw new Error(`BIOS does not support require. Path: ${path}`);
+      };
+
+      factory(React, biosRequire, module, module.exports, processStub);
+      return module.exports;
+  };
+
+  const mainComponent = loadBootModule(BOOTLOADER_PATH).default;
+  if (typeof mainComponent !== 'function') {
+    throw new Error("Bootloader component did not export a default React component.");
+  }
+  return mainComponent;
+};
@@ -0,0 +1,70 @@
+// A/B boot slots.
+// The BIOS does not boot the project's boot files (/boot/**) as soon as they
+// change. It boots the active slot, a snapshot of those files that was promoted
+// explicitly. Boot files that differ from the active slot form a candidate, which
+// has to pass a health check before it can be promoted; the slot it replaces is
+// kept as a fallback to roll back to. The slots hold full copies of the boot
+// files, so they are kept in IndexedDB next to the project files.
+import { ProjectFiles, diffFiles } from './history';
+import { isBootFile } from './recovery';
+
+export const BOOT_SLOTS_DOCUMENT = 'bootSlots';
+// Where older versions kept the slots, in localStorage.
+export const BOOT_SLOTS_STORAGE_KEY = 'self-evolving-boot-slots-v1';
+
+export const DISCARD_CANDIDATE_LABEL = 'Discard boot candidate';
+
+export interface BootSlot {
+  // Only boot files.
+  files: ProjectFiles;
+  promotedAt: number;
+}
+
+export interface BootSlots {
+  active: BootSlot;
+  previous: BootSlot | null;
+}
+
+export const bootFilesOf = (files: ProjectFiles): ProjectFiles =>
+  Object.fromEntries(Object.entries(files).filter(([path]) => isBootFile(path)));
+
+/** Starts with the project's current boot files as the active slot, e.g. for a new or migrated project. */
+export const createBootSlots = (files: ProjectFiles): BootSlots => ({
+  active: { files: bootFilesOf(files), promotedAt: Date.now() },
+  previous: null,
+});
+
+export const sameFiles = (a: ProjectFiles, b: ProjectFiles) => Object.keys(diffFiles(a, b)).length === 0;
+
+/** The project's boot files if they differ from the active slot, otherwise null. */
+export const findCandidate = (files: ProjectFiles, slots: BootSlots): ProjectFiles | null => {
+  const candidate = bootFilesOf(files);
+  return sameFiles(candidate, slots.active.files) ? null : candidate;
+};
+
+/** The project files with their boot files replaced by the slot's, i.e. what the kernel runs from. */
+export const withSlotFiles = (files: ProjectFiles, slot: BootSlot): ProjectFiles => ({
+  ...Object.fromEntries(Object.entries(files).filter(([path]) => !isBootFile(path))),
+  ...slot.files,
+});
+
+export const promoteCandidate = (slots: BootSlots, candidate: ProjectFiles): BootSlots => ({
+  active: { files: candidate, promotedAt: Date.now() },
+  previous: slots.active,
+});
+
+/** Swaps the active and previous slots, so rolling back can itself be undone the same way. */
+export const rollBackBootSlot = (slots: BootSlots): BootSlots =>
+  slots.previous ? { active: slots.previous, previous: slots.active } : slots;
+
+const isBootSlot = (value: any): value is BootSlot =>
+  !!value && typeof value.promotedAt === 'number' && !!value.files && typeof value.files === 'object';
+
+/** The stored slots, or null if nothing usable was stored. */
+export const parseBootSlots = (value: unknown): BootSlots | null => {
+  const slots = value as BootSlots | null;
+  if (!slots || !isBootSlot(slots.active) || (slots.previous !== null && !isBootSlot(slots.previous))) {
+    return null;
+  }
+  return slots;
+};
@@ -0,0 +1,127 @@
+// Portable project bundles.
+// A bundle is a single JSON document with a manifest, the complete file set and,
+// optionally, the project history and model settings. It is what the BIOS menu
+// exports and imports, so a project can leave the browser or go to a teammate.
+import { ProjectFiles, ProjectHistory } from './history';
+import { LlmSettings } from './providers';
+
+export const BUNDLE_FORMAT = 'self-evolving-os-bundle';
+export const BUNDLE_VERSION = 1;
+
+// Without these the imported project could not boot at all.
+export const REQUIRED_BOOT_FILES = ['/boot/bootloader.tsx', '/boot/kernel.tsx'];
+
+export const IMPORT_LABEL = 'Import bundle';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  fileCount: number;
+}
+
+export interface ProjectBundle {
+  manifest: BundleManifest;
+  files: ProjectFiles;
+  history?: ProjectHistory;
+  // API keys live in the vault, so they are never part of a bundle.
+  llmSettings?: LlmSettings;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+export const createBundle = (files: ProjectFiles, history: ProjectHistory | null, llmSettings: LlmSettings | null): ProjectBundle => {
+  const bundle: ProjectBundle = {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      fileCount: Object.keys(files).length,
+    },
+    files,
+  };
+  if (history && history.entries.length > 0) {
+    bundle.history = history;
+  }
+  if (llmSettings) {
+    bundle.llmSettings = llmSettings;
+  }
+  return bundle;
+};
+
+export const bundleFileName = (date = new Date()) =>
+  `evolvable-os-project-${date.toISOString().slice(0, 10)}.json`;
+
+/**
+ * Reads and validates a bundle.
+ * @throws With a message for the user if the text is not a bundle this version can import.
+ */
+export const parseBundle = (text: string): ProjectBundle => {
+  let bundle: ProjectBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+  const manifest = bundle?.manifest;
+  if (!manifest || manifest.format !== BUNDLE_FORMAT) {
+    throw new Error("The file is not a project bundle (missing or unknown manifest).");
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new Error(`The bundle has format version ${manifest.version}, but this BIOS only reads up to version ${BUNDLE_VERSION}.`);
+  }
+  const files = bundle.files;
+  if (!files || typeof files !== 'object' || Array.isArray(files)) {
+    throw new Error("The bundle does not contain a file set.");
+  }
+  for (const [path, content] of Object.entries(files)) {
+    if (!path.startsWith('/') || typeof content !== 'string') {
+      throw new Error(`The bundle contains an invalid file entry: '${path}'.`);
+    }
+  }
+  const missing = REQUIRED_BOOT_FILES.filter(path => !Object.prototype.hasOwnProperty.call(files, path));
+  if (missing.length > 0) {
+    throw new Error(`The bundle cannot boot: ${missing.join(' and ')} ${missing.length > 1 ? 'are' : 'is'} missing.`);
+  }
+  if (bundle.history !== undefined) {
+    const problem = findHistoryProblem(bundle.history);
+    if (problem) {
+      throw new Error(`The bundle's history is malformed: ${problem}.`);
+    }
+  }
+  return bundle;
+};
+
+const isContent = (value: unknown) => value === null || typeof value === 'string';
+
+// Undo and redo apply the stored changes as they are, so every entry has to be well-formed.
+const findHistoryProblem = (history: ProjectHistory): string | null => {
+  if (!history || !Array.isArray(history.entries)) {
+    return "it has no list of entries";
+  }
+  if (!Number.isInteger(history.cursor) || history.cursor < 0 || history.cursor > history.entries.length) {
+    return `the cursor must be a whole number from 0 to ${history.entries.length}`;
+  }
+  for (const [index, entry] of history.entries.entries()) {
+    if (typeof entry?.id !== 'string' || typeof entry.label !== 'string' || typeof entry.timestamp !== 'number') {
+      return `entry ${index + 1} needs an 'id', a 'label' and a 'timestamp'`;
+    }
+    const changes = entry.changes;
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      return `entry ${index + 1} has no file changes`;
+    }
+    for (const [path, change] of Object.entries(changes)) {
+      if (!path.startsWith('/') || !isContent(change?.before) || !isContent(change?.after)) {
+        return `entry ${index + 1} has an invalid change to '${path}'`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * The files the project has after importing a bundle. Replacing drops every
+ * current file; merging keeps them and lets the bundle overwrite files with the same path.
+ */
+export const importedFiles = (current: ProjectFiles, bundle: ProjectBundle, mode: ImportMode): ProjectFiles =>
+  mode === 'replace' ? { ...bundle.files } : { ...current, ...bundle.files };
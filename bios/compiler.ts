@@ -0,0 +1,173 @@
+// Off-main-thread compilation.
+// A dedicated Web Worker owns its own copy of Babel and turns file contents plus a
+// Babel config into CommonJS code, a source map and diagnostics, so large rebuilds
+// no longer freeze the UI. Where a worker cannot be started (or Babel cannot be
+// loaded into it) the same work runs on the main thread instead.
+
+// The same build index.html loads, so both threads produce identical output.
+const BABEL_URL = 'https://unpkg.com/@babel/standalone/babel.min.js';
+
+// Babel options that survive postMessage: preset and plugin names with their options.
+export interface CompileConfig {
+  presets?: unknown[];
+  plugins?: unknown[];
+}
+
+export interface CompileRequest {
+  filePath: string;
+  code: string;
+  config: CompileConfig;
+}
+
+export interface Diagnostic {
+  message: string;
+  // As Babel reports them: the line 1-based, the column 0-based. Null when the error has no location.
+  line: number | null;
+  column: number | null;
+}
+
+export interface CompileResult {
+  // Null when the file does not compile; `diagnostics` says why.
+  code: string | null;
+  map: object | null;
+  // Specifiers of every import and re-export, in source order.
+  imports: string[];
+  diagnostics: Diagnostic[];
+}
+
+/** The compile capability the BIOS hands to the OS. */
+export interface Compiler {
+  compile(request: CompileRequest): Promise<CompileResult>;
+  // The source the BIOS compiles a /boot module from (see bootModuleSource); set on the OS's compiler.
+  bootSource?(filePath: string, code: string): string;
+}
+
+// Serialized into the worker, so it may only use its arguments.
+const runCompile = (babel: any, request: CompileRequest): CompileResult => {
+  const imports: string[] = [];
+  // Records import/export-from specifiers before the CommonJS transform rewrites them.
+  const collectImports = () => ({
+    visitor: {
+      ImportDeclaration(path: any) { imports.push(path.node.source.value); },
+      ExportNamedDeclaration(path: any) { if (path.node.source) imports.push(path.node.source.value); },
+      ExportAllDeclaration(path: any) { imports.push(path.node.source.value); },
+    },
+  });
+  try {
+    if (!babel) {
+      throw new Error("Babel is not loaded, so nothing can be compiled.");
+    }
+    const output = babel.transform(request.code, {
+      presets: request.config.presets,
+      plugins: [collectImports, ...(request.config.plugins || [])],
+      filename: request.filePath,
+      sourceMaps: true,
+    });
+    const map = output.map || null;
+    // The source is in the project files already; dropping it halves the size of cached maps.
+    if (map) delete map.sourcesContent;
+    return { code: output.code, map, imports, diagnostics: [] };
+  } catch (e: any) {
+    return {
+      code: null,
+      map: null,
+      imports,
+      diagnostics: [{ message: e.message, line: e.loc?.line ?? null, column: e.loc?.column ?? null }],
+    };
+  }
+};
+
+const WORKER_SOURCE = `importScripts(${JSON.stringify(BABEL_URL)});
+const runCompile = ${runCompile.toString()};
+self.onmessage = (event) => {
+  const { id, request } = event.data;
+  self.postMessage({ id, result: runCompile(self.Babel, request) });
+};`;
+
+// Babel is the global index.html loads; it may be missing if that script failed.
+const compileOnMainThread = (request: CompileRequest) => Promise.resolve(runCompile((globalThis as any).Babel, request));
+
+const startWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+  try {
+    return new Worker(URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' })));
+  } catch (e) {
+    console.warn("BIOS: Could not start the compile worker; compiling on the main thread.", e);
+    return null;
+  }
+};
+
+export const createCompiler = (): Compiler => {
+  let worker = startWorker();
+  let nextId = 0;
+  const pending = new Map<number, { request: CompileRequest; resolve: (result: CompileResult) => void }>();
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<{ id: number; result: CompileResult }>) => {
+      const { id, result } = event.data;
+      pending.get(id)?.resolve(result);
+      pending.delete(id);
+    };
+    // Most likely Babel could not be loaded into the worker. Finish what was
+    // queued on the main thread and keep compiling there.
+    worker.onerror = (event: ErrorEvent) => {
+      console.warn("BIOS: The compile worker failed; compiling on the main thread.", event.message);
+      worker?.terminate();
+      worker = null;
+      for (const { request, resolve } of pending.values()) {
+        compileOnMainThread(request).then(resolve);
+      }
+      pending.clear();
+    };
+  }
+
+  return {
+    compile: (request) => {
+      if (!worker) {
+        return compileOnMainThread(request);
+      }
+      const id = nextId++;
+      return new Promise(resolve => {
+        pending.set(id, { request, resolve });
+        worker!.postMessage({ id, request });
+      });
+    },
+  };
+};
+
+// `new Function` puts its parameter list in front of the body: "function anonymous(...\n) {\n".
+const FUNCTION_HEADER_LINES = 2;
+
+/**
+ * Appends a sourceURL and an inline source map to compiled code that is about to be
+ * evaluated with `new Function`, so stack traces and the debugger show `filePath`
+ * instead of an anonymous function.
+ * @param map The map from a CompileResult, or null.
+ * @param source The original file content, embedded so the debugger can show it.
+ */
+export const withSourceMap = (code: string, map: object | null, filePath: string, source: string): string => {
+  let annotated = `${code}\n//# sourceURL=vfs://${filePath}`;
+  if (map) {
+    const inlineMap = {
+      ...map,
+      sources: [filePath],
+      sourcesContent: [source],
+      mappings: ';'.repeat(FUNCTION_HEADER_LINES) + (map as { mappings: string }).mappings,
+    };
+    const encoded = btoa(unescape(encodeURIComponent(JSON.stringify(inlineMap))));
+    annotated += `\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${encoded}`;
+  }
+  return annotated;
+};
+
+let sharedCompiler: Compiler | null = null;
+
+/** The compiler shared by the BIOS and the OS, started on first use. */
+export const getCompiler = (): Compiler => {
+  if (!sharedCompiler) {
+    sharedCompiler = createCompiler();
+  }
+  return sharedCompiler;
+};
@@ -0,0 +1,142 @@
+// Developer console capture.
+// Records console calls, uncaught errors and unhandled promise rejections of the
+// whole page, plus the 'console' messages of the LivePreview bridge, so the
+// kernel can show them in its own console panel. Each entry is attributed to
+// where it came from: the BIOS, the bootloader, a VFS module or the preview.
+import { BOOTLOADER_PATH } from './bootCompiler';
+import { isPreviewMessage, isPreviewSource } from './previewBridge';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// 'bios', 'bootloader', 'preview', or the path of the VFS module, e.g. '/components/Editor.tsx'.
+export type ConsoleSource = string;
+
+export interface ConsoleEntry {
+  id: number;
+  time: number;
+  level: ConsoleLevel;
+  source: ConsoleSource;
+  message: string;
+}
+
+/** The capture as the BIOS hands it to the OS. */
+export interface DevConsole {
+  getEntries(): ConsoleEntry[];
+  // The listener is called asynchronously after entries were added or cleared.
+  subscribe(listener: () => void): () => void;
+  clear(): void;
+}
+
+const LEVELS: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+// Oldest entries are dropped first.
+const MAX_ENTRIES = 500;
+
+// Frames of modules evaluated by the BIOS or the OS carry their VFS path (see withSourceMap).
+const VFS_FRAME = /vfs:\/\/(\/[^\s()]+?):\d+:\d+/;
+// A stack line that names a location, in both the V8 and the Firefox format.
+const FRAME = /:\d+:\d+\)?$/;
+
+const sourceOfFrame = (frame: string | undefined): ConsoleSource => {
+  const match = frame && VFS_FRAME.exec(frame);
+  if (!match) {
+    return 'bios';
+  }
+  const path = match[1];
+  return path === BOOTLOADER_PATH || path.startsWith('/boot/lib/') ? 'bootloader' : path;
+};
+
+/**
+ * Attributes a stack trace to the code in its top frame.
+ * @param skipFrames How many frames of the capture itself come first.
+ */
+const sourceOfStack = (stack: string | undefined, skipFrames = 0): ConsoleSource =>
+  sourceOfFrame((stack || '').split('\n').filter(line => FRAME.test(line.trim()))[skipFrames]);
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Error) {
+    return value.stack || `${value.name}: ${value.message}`;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    // Circular structures, DOM nodes and the like.
+    return String(value);
+  }
+};
+
+const formatConsoleArgs = (args: unknown[]): string => args.map(formatValue).join(' ');
+
+const installDevConsole = (): DevConsole => {
+  let entries: ConsoleEntry[] = [];
+  let nextId = 0;
+  const listeners = new Set<() => void>();
+  let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Listeners re-render React components. Calling them later, not from inside the
+  // console call, means a console.error React makes while rendering cannot loop.
+  const notify = () => {
+    if (notifyTimer === null) {
+      notifyTimer = setTimeout(() => {
+        notifyTimer = null;
+        listeners.forEach(listener => listener());
+      }, 0);
+    }
+  };
+
+  const record = (level: ConsoleLevel, source: ConsoleSource, message: string) => {
+    entries = [...entries, { id: nextId++, time: Date.now(), level, source, message }].slice(-MAX_ENTRIES);
+    notify();
+  };
+
+  for (const level of LEVELS) {
+    const original = console[level].bind(console);
+    console[level] = (...args: unknown[]) => {
+      // The first frame is this wrapper; the next one is the caller.
+      record(level, sourceOfStack(new Error().stack, 1), formatConsoleArgs(args));
+      original(...args);
+    };
+  }
+
+  window.addEventListener('error', (event: ErrorEvent) => {
+    const source = event.error?.stack ? sourceOfStack(event.error.stack) : sourceOfFrame(`${event.filename}:${event.lineno}:${event.colno}`);
+    record('error', source, `Uncaught ${event.error ? formatValue(event.error) : event.message}`);
+  });
+  window.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
+    record('error', sourceOfStack(event.reason?.stack), `Unhandled promise rejection: ${formatValue(event.reason)}`);
+  });
+  window.addEventListener('message', (event: MessageEvent) => {
+    const data = event.data;
+    // Any window can post messages here; only connected previews are logged.
+    if (!isPreviewSource(event.source)) {
+      return;
+    }
+    if (isPreviewMessage(data) && data.type === 'console' && LEVELS.includes(data.level) && typeof data.message === 'string') {
+      record(data.level, 'preview', data.message);
+    }
+  });
+
+  return {
+    getEntries: () => entries,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    clear: () => {
+      entries = [];
+      notify();
+    },
+  };
+};
+
+let sharedDevConsole: DevConsole | null = null;
+
+/** The page's console capture, installed on first use. */
+export const getDevConsole = (): DevConsole => {
+  if (!sharedDevConsole) {
+    sharedDevConsole = installDevConsole();
+  }
+  return sharedDevConsole;
+};
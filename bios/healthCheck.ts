@@ -0,0 +1,146 @@
+// Health check for a candidate boot slot.
+// The candidate bootloader is compiled and rendered inside a hidden iframe, so it
+// gets its own document and JavaScript globals. It receives the props the running
+// bootloader gets, except that every callback is a stub that cannot touch the
+// running project, and its localStorage, sessionStorage and IndexedDB are empty
+// in-memory stand-ins rather than the live app's. It passes once it has rendered
+// without throwing and reported a successful kernel boot (onBootSuccess).
+import React from 'react';
+import * as ReactDOMClient from 'react-dom/client';
+import { ProjectFiles } from './history';
+import { DevConsole } from './devConsole';
+import { createPreviewService } from './previewBridge';
+import { CompiledBootModule, compileBootloader, precompileBootModules } from './bootCompiler';
+import { getCompiler } from './compiler';
+
+export const HEALTH_CHECK_DEADLINE_MS = 8000;
+
+export interface HealthCheckResult {
+  // Null when the candidate is healthy.
+  error: string | null;
+  durationMs: number;
+}
+
+const noop = () => {};
+
+const rejectModelRequest = () => Promise.reject(new Error("The model is not available during a health check."));
+
+// A Storage that forgets everything once the check is over.
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: index => Array.from(items.keys())[index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: key => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+};
+
+// Points the realm's storage at stand-ins, and cuts the references back to the
+// BIOS window that would reach the real ones. (`top` cannot be redefined.)
+const isolateStorage = (realm: Window) => {
+  const replace = (name: string, value: unknown) => Object.defineProperty(realm, name, { value, configurable: true });
+  replace('localStorage', createMemoryStorage());
+  replace('sessionStorage', createMemoryStorage());
+  // Code that checks for IndexedDB falls back to memory, like in a browser without it.
+  replace('indexedDB', undefined);
+  replace('parent', realm);
+  replace('frameElement', null);
+};
+
+/**
+ * The props the candidate is rendered with: the running bootloader's, with the
+ * candidate files and every callback stubbed. The model and console stay read-only.
+ */
+const candidateProps = (props: Record<string, any>, files: ProjectFiles, onBootSuccess: () => void) => {
+  const stubbed: Record<string, any> = {};
+  for (const [name, value] of Object.entries(props)) {
+    stubbed[name] = typeof value === 'function' ? noop : value;
+  }
+  const devConsole: DevConsole | undefined = props.devConsole;
+  return {
+    ...stubbed,
+    initialFiles: files,
+    kernelFiles: files,
+    onBootSuccess,
+    recoveryPanel: null,
+    llm: { generateJson: rejectModelRequest },
+    preview: createPreviewService(rejectModelRequest),
+    devConsole: devConsole && { ...devConsole, clear: noop },
+  };
+};
+
+const errorMessage = (error: unknown) =>
+  // Errors thrown inside the iframe come from its realm, so `instanceof Error` does not hold.
+  (error as { message?: string } | null)?.message ?? String(error);
+
+/**
+ * Boots the candidate from `files` in an isolated iframe. Never rejects: anything
+ * that goes wrong is the result's error.
+ * @param externals The same modules the BIOS provides to the active bootloader.
+ * @param props The props the BIOS renders the active bootloader with.
+ */
+export const checkBootCandidate = (
+  files: ProjectFiles,
+  externals: Record<string, any>,
+  props: Record<string, any>,
+  deadlineMs = HEALTH_CHECK_DEADLINE_MS
+): Promise<HealthCheckResult> => {
+  const startedAt = Date.now();
+  const iframe = document.createElement('iframe');
+  iframe.title = 'Boot slot health check';
+  iframe.style.display = 'none';
+  document.body.appendChild(iframe);
+  const realm = iframe.contentWindow as Window & { Babel?: any };
+
+  let root: ReactDOMClient.Root | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Set once the check is decided, e.g. when compiling alone took past the deadline.
+  let finished = false;
+  const compiler = getCompiler();
+  const outcome = new Promise<string | null>(resolve => {
+    const fail = (error: unknown) => resolve(errorMessage(error));
+    timer = setTimeout(
+      () => resolve(`The candidate did not report a successful boot within ${deadlineMs / 1000} seconds.`),
+      deadlineMs
+    );
+    let container: HTMLElement;
+    try {
+      isolateStorage(realm);
+      // The OS module loader in /boot/lib compiles the kernel with the global Babel.
+      realm.Babel = (window as Window & { Babel?: any }).Babel;
+      container = realm.document.createElement('div');
+      realm.document.body.appendChild(container);
+    } catch (e) {
+      fail(e);
+      return;
+    }
+    const mount = (precompiled: Record<string, CompiledBootModule>) => {
+      if (finished) {
+        return;
+      }
+      try {
+        const Bootloader = compileBootloader(files, externals, realm, precompiled);
+        root = ReactDOMClient.createRoot(container, { onUncaughtError: fail, onCaughtError: fail });
+        root.render(React.createElement(Bootloader, candidateProps(props, files, () => resolve(null))));
+      } catch (e) {
+        fail(e);
+      }
+    };
+    precompileBootModules(files, compiler).then(mount, fail);
+  });
+
+  return outcome.then(error => {
+    finished = true;
+    clearTimeout(timer);
+    try {
+      root?.unmount();
+    } catch (e) {
+      console.warn("BIOS: Failed to unmount the health check.", e);
+    }
+    iframe.remove();
+    return { error, durationMs: Date.now() - startedAt };
+  });
+};
@@ -0,0 +1,163 @@
+// Versioned project history for the BIOS.
+// Every save of the project files is recorded as a commit-style entry that
+// stores only the files it touched (their content before and after), so the
+// whole project can be walked backwards and forwards without keeping full
+// snapshots around. The BIOS stores it as a project document (see ./storage).
+
+export type ProjectFiles = Record<string, string>;
+
+export const HISTORY_DOCUMENT = 'history';
+// Where older versions kept the history, in localStorage.
+export const HISTORY_STORAGE_KEY = 'self-evolving-project-history-v1';
+
+export const MANUAL_EDIT_LABEL = 'Manual edit';
+
+// Oldest entries are dropped beyond this point to keep the stored history bounded.
+const MAX_HISTORY_ENTRIES = 100;
+
+// Consecutive manual edits to the same files within this window are folded into
+// a single entry, so typing in the editor does not create one entry per keystroke.
+const MANUAL_EDIT_COALESCE_MS = 60 * 1000;
+
+/** The content of a single file before and after a change. `null` means the file did not exist. */
+export interface FileChange {
+  before: string | null;
+  after: string | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  changes: Record<string, FileChange>;
+}
+
+export interface ProjectHistory {
+  entries: HistoryEntry[];
+  // Number of entries currently applied to the project files.
+  // Entries at or after the cursor have been undone and can be redone.
+  cursor: number;
+}
+
+export const EMPTY_HISTORY: ProjectHistory = { entries: [], cursor: 0 };
+
+/**
+ * Computes the per-file changes needed to go from one file set to another.
+ * @returns A map of changed paths; empty if both file sets are identical.
+ */
+export const diffFiles = (previous: ProjectFiles, next: ProjectFiles): Record<string, FileChange> => {
+  const changes: Record<string, FileChange> = {};
+  const paths = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const path of paths) {
+    const before = Object.prototype.hasOwnProperty.call(previous, path) ? previous[path] : null;
+    const after = Object.prototype.hasOwnProperty.call(next, path) ? next[path] : null;
+    if (before !== after) {
+      changes[path] = { before, after };
+    }
+  }
+  return changes;
+};
+
+const applyChanges = (files: ProjectFiles, changes: Record<string, FileChange>, direction: 'before' | 'after'): ProjectFiles => {
+  const result = { ...files };
+  for (const [path, change] of Object.entries(changes)) {
+    const content = change[direction];
+    if (content === null) {
+      delete result[path];
+    } else {
+      result[path] = content;
+    }
+  }
+  return result;
+};
+
+const samePaths = (a: Record<string, unknown>, b: Record<string, unknown>): boolean => {
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key));
+};
+
+/**
+ * Records the transition from `previous` to `next` as a new history entry.
+ * Any undone entries after the cursor are discarded, like a new commit on a detached branch.
+ */
+export const recordChange = (
+  history: ProjectHistory,
+  previous: ProjectFiles,
+  next: ProjectFiles,
+  label: string,
+  now: number = Date.now()
+): ProjectHistory => {
+  const changes = diffFiles(previous, next);
+  if (Object.keys(changes).length === 0) {
+    return history;
+  }
+
+  const entries = history.entries.slice(0, history.cursor);
+  const last = entries[entries.length - 1];
+
+  if (
+    label === MANUAL_EDIT_LABEL &&
+    last &&
+    last.label === MANUAL_EDIT_LABEL &&
+    now - last.timestamp < MANUAL_EDIT_COALESCE_MS &&
+    samePaths(last.changes, changes)
+  ) {
+    const merged: Record<string, FileChange> = {};
+    for (const [path, change] of Object.entries(changes)) {
+      const before = last.changes[path].before;
+      if (before !== change.after) {
+        merged[path] = { before, after: change.after };
+      }
+    }
+    entries.pop();
+    if (Object.keys(merged).length > 0) {
+      entries.push({ ...last, timestamp: now, changes: merged });
+    }
+    return { entries, cursor: entries.length };
+  }
+
+  entries.push({
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    timestamp: now,
+    changes,
+  });
+  const trimmed = entries.slice(-MAX_HISTORY_ENTRIES);
+  return { entries: trimmed, cursor: trimmed.length };
+};
+
+/**
+ * Moves the history cursor to `target`, undoing or redoing entries as needed.
+ * @returns The new history and the resulting project files, or null if the target is out of range.
+ */
+export const checkout = (
+  history: ProjectHistory,
+  files: ProjectFiles,
+  target: number
+): { history: ProjectHistory; files: ProjectFiles } | null => {
+  if (target < 0 || target > history.entries.length || target === history.cursor) {
+    return null;
+  }
+  let result = files;
+  for (let i = history.cursor - 1; i >= target; i--) {
+    result = applyChanges(result, history.entries[i].changes, 'before');
+  }
+  for (let i = history.cursor; i < target; i++) {
+    result = applyChanges(result, history.entries[i].changes, 'after');
+  }
+  return { history: { ...history, cursor: target }, files: result };
+};
+
+export const undo = (history: ProjectHistory, files: ProjectFiles) => checkout(history, files, history.cursor - 1);
+
+export const redo = (history: ProjectHistory, files: ProjectFiles) => checkout(history, files, history.cursor + 1);
+
+/** The stored history, or an empty one if nothing usable was stored. */
+export const parseHistory = (value: unknown): ProjectHistory => {
+  const history = value as ProjectHistory | null;
+  if (!history || !Array.isArray(history.entries) || typeof history.cursor !== 'number') {
+    return EMPTY_HISTORY;
+  }
+  return history;
+};
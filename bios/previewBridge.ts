@@ -0,0 +1,256 @@
+// The LivePreview bridge.
+// A previewed app runs in an iframe built from `srcdoc` with only `allow-scripts`,
+// so it gets an opaque origin: it cannot reach the IDE's window, storage or API
+// key. Everything it needs crosses a versioned postMessage protocol instead:
+// - preview -> IDE: 'ready', 'console' output, boot 'error's and 'ai-request's.
+// - IDE -> preview: 'boot' with the compiled modules and the URLs of their
+//   dependencies, and an 'ai-response' for every 'ai-request'.
+// AI calls are answered by the IDE with its own provider settings; the preview
+// only ever sees the response text.
+import { LlmRequest } from './providers';
+import { ConsoleLevel } from './devConsole';
+
+export const PREVIEW_PROTOCOL = 'self-evolving-preview';
+// Bump when a message changes shape; both sides drop messages of another version.
+export const PREVIEW_PROTOCOL_VERSION = 1;
+
+// ES module URLs the preview imports its dependencies from, the same builds the
+// IDE's import map in index.html uses. '@google/genai' is not among them: the
+// preview gets a stand-in that proxies to the IDE (see previewRuntime).
+export const PREVIEW_DEPENDENCIES: Record<string, string> = {
+  'react': 'https://aistudiocdn.com/react@^19.1.1',
+  'react-dom': 'https://aistudiocdn.com/react-dom@^19.1.1',
+  'react-dom/client': 'https://aistudiocdn.com/react-dom@^19.1.1/client',
+};
+
+export interface PreviewBoot {
+  // Compiled CommonJS code by VFS path.
+  modules: Record<string, string>;
+  entryPoint: string;
+}
+
+export type PreviewMessage =
+  | { type: 'ready' }
+  | { type: 'console'; level: ConsoleLevel; message: string }
+  | { type: 'error'; message: string }
+  | { type: 'ai-request'; id: number; request: LlmRequest };
+
+export type HostMessage =
+  | { type: 'boot'; modules: Record<string, string>; entryPoint: string; dependencies: Record<string, string> }
+  | { type: 'ai-response'; id: number; text: string }
+  | { type: 'ai-response'; id: number; error: string };
+
+type Envelope<T> = T & { protocol: typeof PREVIEW_PROTOCOL; version: number };
+
+/** Whether `data` is a message of the current protocol version, from either side. */
+export const isPreviewMessage = (data: any): data is Envelope<PreviewMessage | HostMessage> =>
+  !!data && data.protocol === PREVIEW_PROTOCOL && data.version === PREVIEW_PROTOCOL_VERSION && typeof data.type === 'string';
+
+const isLlmRequest = (request: any): request is LlmRequest =>
+  !!request && typeof request.prompt === 'string' && !!request.schema && typeof request.schema === 'object';
+
+// Runs inside the preview, serialized into its srcdoc, so it may only use its arguments.
+const previewRuntime = (protocol: string, version: number) => {
+  const send = (message: any) => window.parent.postMessage({ protocol, version, ...message }, '*');
+
+  const formatValue = (value: any) => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || value.message;
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  };
+  (['log', 'info', 'warn', 'error', 'debug'] as const).forEach(level => {
+    const original = console[level].bind(console);
+    console[level] = (...args: any[]) => {
+      send({ type: 'console', level, message: args.map(formatValue).join(' ') });
+      original(...args);
+    };
+  });
+  window.addEventListener('error', event => console.error('Uncaught', event.error || event.message));
+  window.addEventListener('unhandledrejection', event => console.error('Unhandled promise rejection:', event.reason));
+
+  const pendingAiRequests = new Map<number, { resolve: (text: string) => void; reject: (error: Error) => void }>();
+  let nextAiRequestId = 0;
+  const requestAi = (request: any) => new Promise<string>((resolve, reject) => {
+    const id = nextAiRequestId++;
+    pendingAiRequests.set(id, { resolve, reject });
+    send({ type: 'ai-request', id, request });
+  });
+
+  // Gemini spells schema types in capitals (Type.OBJECT); the IDE's schemas do not.
+  const toJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const converted: any = { ...schema };
+    if (typeof schema.type === 'string') converted.type = schema.type.toLowerCase();
+    if (schema.items) converted.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+      converted.properties = {};
+      for (const key of Object.keys(schema.properties)) converted.properties[key] = toJsonSchema(schema.properties[key]);
+    }
+    return converted;
+  };
+  const textOf = (contents: any): string => {
+    if (typeof contents === 'string') return contents;
+    if (Array.isArray(contents)) return contents.map(textOf).join('\n');
+    if (contents && typeof contents === 'object') {
+      if (typeof contents.text === 'string') return contents.text;
+      if (contents.parts) return textOf(contents.parts);
+    }
+    return '';
+  };
+  // Stands in for '@google/genai': generateContent is answered by the IDE, which
+  // holds the key. The IDE only returns JSON, so plain text requests are wrapped.
+  // A constructor function rather than a class: class fields could be compiled
+  // into a helper outside this function, which the serialized copy would lack.
+  const GoogleGenAI = function (this: any) {
+    this.models = {
+      generateContent: async ({ contents, config = {} }: any) => {
+        const prompt = textOf(contents);
+        if (config.responseSchema) {
+          return { text: await requestAi({ prompt, schema: toJsonSchema(config.responseSchema) }) };
+        }
+        const json = await requestAi({
+          prompt,
+          schema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        });
+        return { text: JSON.parse(json).text };
+      },
+    };
+  };
+  const genai = {
+    GoogleGenAI,
+    Type: { STRING: 'STRING', NUMBER: 'NUMBER', INTEGER: 'INTEGER', BOOLEAN: 'BOOLEAN', ARRAY: 'ARRAY', OBJECT: 'OBJECT' },
+  };
+
+  const boot = async ({ modules, entryPoint, dependencies }: any) => {
+    const externals: Record<string, any> = { '@google/genai': genai };
+    await Promise.all(Object.keys(dependencies).map(async specifier => {
+      externals[specifier] = await import(/* @vite-ignore */ dependencies[specifier]);
+    }));
+    // Apps written for AI Studio pass this to GoogleGenAI, whose stand-in ignores it.
+    const process = { env: { API_KEY: 'provided-by-the-ide' } };
+    const moduleCache: Record<string, { exports: any }> = {};
+    // ES module namespaces as CommonJS: default-only modules like React are used directly.
+    const asCommonJs = (external: any) =>
+      external.default && Object.keys(external).length === 1 ? external.default : external;
+    // Like the OS module loader, modules get React as a global, so they may use it without importing it.
+    const React = asCommonJs(externals.react);
+
+    const resolvePath = (base: string, relative: string) => {
+      const stack = base.split('/').slice(0, -1);
+      for (const part of relative.split('/')) {
+        if (part === '..') stack.pop();
+        else if (part !== '.') stack.push(part);
+      }
+      const path = stack.join('/');
+      return [path, `${path}.tsx`, `${path}.ts`].find(candidate => candidate in modules) || path;
+    };
+    const load = (path: string): any => {
+      if (moduleCache[path]) return moduleCache[path].exports;
+      if (!(path in modules)) throw new Error(`Module not found: ${path}`);
+      const module = { exports: {} };
+      moduleCache[path] = module;
+      const require = (specifier: string) => {
+        if (specifier in externals) return asCommonJs(externals[specifier]);
+        return load(resolvePath(path, specifier));
+      };
+      new Function('React', 'require', 'module', 'exports', 'process', modules[path])(React, require, module, module.exports, process);
+      return module.exports;
+    };
+    load(entryPoint);
+  };
+
+  window.addEventListener('message', event => {
+    const data = event.data;
+    if (event.source !== window.parent || !data || data.protocol !== protocol) return;
+    if (data.version !== version) {
+      console.error(`The IDE speaks version ${data.version} of the preview protocol; this preview expects ${version}.`);
+      return;
+    }
+    if (data.type === 'boot') {
+      boot(data).catch(error => send({ type: 'error', message: error && error.message ? error.message : String(error) }));
+    } else if (data.type === 'ai-response') {
+      const pending = pendingAiRequests.get(data.id);
+      pendingAiRequests.delete(data.id);
+      if (pending && typeof data.error === 'string') pending.reject(new Error(data.error));
+      else if (pending) pending.resolve(data.text);
+    }
+  });
+  send({ type: 'ready' });
+};
+
+/**
+ * Builds the preview document: the project's HTML without its own scripts, plus
+ * the runtime that waits for the 'boot' message.
+ */
+export const createPreviewDocument = (html: string): string => {
+  const runtime = `<script>(${previewRuntime.toString()})(${JSON.stringify(PREVIEW_PROTOCOL)}, ${PREVIEW_PROTOCOL_VERSION});</script>`;
+  const page = html.replace(/<script[\s\S]*?<\/script>/g, '');
+  return page.includes('</body>') ? page.replace('</body>', `${runtime}</body>`) : `${page}${runtime}`;
+};
+
+// The iframes connectPreview currently serves.
+const connectedPreviews = new Set<HTMLIFrameElement>();
+
+/** Whether `source`, a message event's source, is the window of a connected preview. */
+export const isPreviewSource = (source: MessageEventSource | null): boolean =>
+  !!source && Array.from(connectedPreviews).some(iframe => iframe.contentWindow === source);
+
+export interface PreviewHost {
+  // The build to send once the preview is ready.
+  boot: PreviewBoot;
+  onError: (message: string) => void;
+  // Answers an AI request with the response text.
+  onAiRequest: (request: LlmRequest) => Promise<string>;
+}
+
+/**
+ * Serves the preview in `iframe`: boots it when its runtime reports ready and
+ * answers its AI requests. Messages from any other window are ignored.
+ * @returns A function that stops serving.
+ */
+export const connectPreview = (iframe: HTMLIFrameElement, host: PreviewHost): (() => void) => {
+  const post = (message: HostMessage) => {
+    // The preview's origin is opaque, so it cannot be named as the target.
+    iframe.contentWindow?.postMessage({ protocol: PREVIEW_PROTOCOL, version: PREVIEW_PROTOCOL_VERSION, ...message }, '*');
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== iframe.contentWindow || !isPreviewMessage(event.data)) {
+      return;
+    }
+    const message = event.data as Envelope<PreviewMessage>;
+    if (message.type === 'ready') {
+      post({ type: 'boot', ...host.boot, dependencies: PREVIEW_DEPENDENCIES });
+    } else if (message.type === 'error') {
+      host.onError(String(message.message));
+    } else if (message.type === 'ai-request') {
+      const { id, request } = message;
+      if (!isLlmRequest(request)) {
+        post({ type: 'ai-response', id, error: "An AI request needs a prompt and a schema." });
+        return;
+      }
+      host.onAiRequest({ prompt: request.prompt, schema: request.schema }).then(
+        text => post({ type: 'ai-response', id, text }),
+        error => post({ type: 'ai-response', id, error: error instanceof Error ? error.message : String(error) })
+      );
+    }
+  };
+
+  connectedPreviews.add(iframe);
+  window.addEventListener('message', handleMessage);
+  return () => {
+    connectedPreviews.delete(iframe);
+    window.removeEventListener('message', handleMessage);
+  };
+};
+
+/** What the BIOS hands the OS to run previews with; AI requests are answered by the BIOS. */
+export interface PreviewService {
+  createDocument: (html: string) => string;
+  connect: (iframe: HTMLIFrameElement, host: Omit<PreviewHost, 'onAiRequest'>) => (() => void);
+}
+
+export const createPreviewService = (onAiRequest: PreviewHost['onAiRequest']): PreviewService => ({
+  createDocument: createPreviewDocument,
+  connect: (iframe, host) => connectPreview(iframe, { ...host, onAiRequest }),
+});
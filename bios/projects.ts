@@ -0,0 +1,136 @@
+// Named projects.
+// The registry lists every project and remembers which one is active. Each
+// project has its own files and documents in IndexedDB and its own copy of every
+// per-project localStorage entry, so projects never see each other's state. Switching
+// projects reloads the page, which boots the newly active project from scratch.
+import { HISTORY_STORAGE_KEY, ProjectFiles } from './history';
+import { LAST_KNOWN_GOOD_STORAGE_KEY } from './recovery';
+import { CASSETTE_STORAGE_KEY, LLM_SETTINGS_STORAGE_KEY } from './providers';
+import { clearStoredDocuments, clearStoredFiles, copyStoredDocuments, loadStoredFiles, replaceStoredFiles } from './storage';
+import { BOOT_SLOTS_STORAGE_KEY } from './bootSlots';
+import { CHAT_SESSIONS_STORAGE_KEY } from './sessions';
+import { DEFAULT_PROJECT_ID, projectScopedKey } from './scope';
+
+export const PROJECTS_STORAGE_KEY = 'self-evolving-projects-v1';
+
+// Per-project localStorage entries, as base keys for projectScopedKey. Some only
+// remain from older versions, until they are moved into IndexedDB on first load.
+export const PROJECT_SCOPED_KEYS = [HISTORY_STORAGE_KEY, LAST_KNOWN_GOOD_STORAGE_KEY, LLM_SETTINGS_STORAGE_KEY, CASSETTE_STORAGE_KEY, BOOT_SLOTS_STORAGE_KEY, CHAT_SESSIONS_STORAGE_KEY];
+
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface ProjectRegistry {
+  projects: ProjectInfo[];
+  activeId: string;
+}
+
+const createProjectId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const saveRegistry = (registry: ProjectRegistry) => {
+  window.localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(registry));
+};
+
+// Before projects existed, every entry lived under its unscoped base key.
+const migrateUnscopedKeys = () => {
+  for (const baseKey of PROJECT_SCOPED_KEYS) {
+    const value = window.localStorage.getItem(baseKey);
+    if (value !== null) {
+      window.localStorage.setItem(projectScopedKey(baseKey, DEFAULT_PROJECT_ID), value);
+      window.localStorage.removeItem(baseKey);
+    }
+  }
+};
+
+/** Reads the registry, creating it (with the existing data as the default project) on first use. */
+export const loadProjectRegistry = (): ProjectRegistry => {
+  try {
+    const saved = window.localStorage.getItem(PROJECTS_STORAGE_KEY);
+    if (saved) {
+      const registry: ProjectRegistry = JSON.parse(saved);
+      if (registry.projects.some(project => project.id === registry.activeId)) {
+        return registry;
+      }
+      if (registry.projects.length > 0) {
+        return { ...registry, activeId: registry.projects[0].id };
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load the project list from localStorage", e);
+  }
+  migrateUnscopedKeys();
+  const registry: ProjectRegistry = {
+    projects: [{ id: DEFAULT_PROJECT_ID, name: 'My Project', createdAt: Date.now() }],
+    activeId: DEFAULT_PROJECT_ID,
+  };
+  saveRegistry(registry);
+  return registry;
+};
+
+/**
+ * Adds a project and stores its files: a copy of `source` (an existing project's id)
+ * including its history and settings, or the given seed files.
+ * @returns The updated registry and the new project's id.
+ */
+export const createProject = async (
+  registry: ProjectRegistry,
+  name: string,
+  seed: { sourceId: string } | { files: ProjectFiles }
+): Promise<{ registry: ProjectRegistry; id: string }> => {
+  const id = createProjectId();
+  if ('sourceId' in seed) {
+    const files = await loadStoredFiles(seed.sourceId);
+    if (!files) {
+      throw new Error("The project to copy has no stored files.");
+    }
+    await replaceStoredFiles(id, files);
+    await copyStoredDocuments(seed.sourceId, id);
+    for (const baseKey of PROJECT_SCOPED_KEYS) {
+      const value = window.localStorage.getItem(projectScopedKey(baseKey, seed.sourceId));
+      if (value !== null) {
+        window.localStorage.setItem(projectScopedKey(baseKey, id), value);
+      }
+    }
+  } else {
+    await replaceStoredFiles(id, seed.files);
+  }
+  const next = { ...registry, projects: [...registry.projects, { id, name, createdAt: Date.now() }] };
+  saveRegistry(next);
+  return { registry: next, id };
+};
+
+export const renameProject = (registry: ProjectRegistry, id: string, name: string): ProjectRegistry => {
+  const next = {
+    ...registry,
+    projects: registry.projects.map(project => (project.id === id ? { ...project, name } : project)),
+  };
+  saveRegistry(next);
+  return next;
+};
+
+/** Removes everything stored for a project. If it was active, the first remaining project becomes active. */
+export const deleteProject = async (registry: ProjectRegistry, id: string): Promise<ProjectRegistry> => {
+  const projects = registry.projects.filter(project => project.id !== id);
+  if (projects.length === 0) {
+    throw new Error("The last project cannot be deleted.");
+  }
+  await clearStoredFiles(id);
+  await clearStoredDocuments(id);
+  clearProjectScopedKeys(id);
+  const next = { projects, activeId: registry.activeId === id ? projects[0].id : registry.activeId };
+  saveRegistry(next);
+  return next;
+};
+
+export const setActiveProject = (registry: ProjectRegistry, id: string): ProjectRegistry => {
+  const next = { ...registry, activeId: id };
+  saveRegistry(next);
+  return next;
+};
+
+export const clearProjectScopedKeys = (id: string) => {
+  PROJECT_SCOPED_KEYS.forEach(baseKey => window.localStorage.removeItem(projectScopedKey(baseKey, id)));
+};
@@ -0,0 +1,73 @@
+// Record-and-replay cassettes for the LLM provider layer.
+// In record mode every prompt is sent to the configured provider as usual and
+// the raw response text is stored under the SHA-256 hash of the prompt. In replay
+// mode the provider is never called: responses come back from the cassette, so
+// the evolution pipeline runs offline and deterministically.
+// Cassettes grow with every recorded prompt, so the BIOS keeps them in IndexedDB.
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  promptHash: string;
+  // Kept for readability when inspecting or diffing cassette files.
+  prompt: string;
+  response: string;
+  provider: string;
+  model: string;
+  recordedAt: number;
+}
+
+export interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+export const CASSETTE_DOCUMENT = 'cassette';
+// Where older versions kept the cassette, in localStorage.
+export const CASSETTE_STORAGE_KEY = 'self-evolving-llm-cassette-v1';
+
+export const EMPTY_CASSETTE: Cassette = { version: 1, entries: [] };
+
+export const hashPrompt = async (prompt: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(prompt));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const findRecording = (cassette: Cassette, promptHash: string): CassetteEntry | null =>
+  cassette.entries.find(entry => entry.promptHash === promptHash) || null;
+
+/** Adds an entry, replacing an earlier recording of the same prompt. */
+export const addRecording = (cassette: Cassette, entry: CassetteEntry): Cassette => ({
+  ...cassette,
+  entries: [...cassette.entries.filter(e => e.promptHash !== entry.promptHash), entry],
+});
+
+/**
+ * Checks that a value read from a cassette file has the expected shape.
+ * @throws If it is not a cassette this version of the BIOS can replay.
+ */
+export const parseCassette = (value: unknown): Cassette => {
+  const cassette = value as Cassette;
+  if (!cassette || cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+    throw new Error("Not a version 1 cassette.");
+  }
+  for (const entry of cassette.entries) {
+    if (typeof entry?.promptHash !== 'string' || typeof entry.response !== 'string') {
+      throw new Error("Every cassette entry needs a 'promptHash' and a 'response' string.");
+    }
+  }
+  return cassette;
+};
+
+/** The stored cassette, or an empty one if nothing usable was stored. */
+export const parseStoredCassette = (value: unknown): Cassette => {
+  if (!value) {
+    return EMPTY_CASSETTE;
+  }
+  try {
+    return parseCassette(value);
+  } catch (e) {
+    console.error("Ignoring the stored LLM cassette", e);
+    return EMPTY_CASSETTE;
+  }
+};
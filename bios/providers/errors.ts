@@ -0,0 +1,46 @@
+// Errors raised by the LLM provider layer, and how the retry logic classifies them.
+
+/** A provider endpoint answered with a non-2xx HTTP status. */
+export class LlmHttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LlmHttpError';
+    this.status = status;
+  }
+}
+
+/** The request did not finish within the configured timeout. */
+export class LlmTimeoutError extends Error {
+  constructor(seconds: number) {
+    super(`The model did not respond within ${seconds} seconds.`);
+    this.name = 'LlmTimeoutError';
+  }
+}
+
+/** The provider needs an API key that the vault does not have, or keeps locked. */
+export class LlmKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmKeyError';
+  }
+}
+
+/** True for errors caused by the caller aborting the request, e.g. the user pressing Cancel. */
+export const isAbortError = (e: unknown): boolean =>
+  e instanceof Error && e.name === 'AbortError';
+
+/**
+ * Rate limits, server errors and dropped connections are worth retrying;
+ * bad requests, auth failures and malformed responses are not.
+ * Errors from the Gemini SDK carry the HTTP status in `status` as well.
+ */
+export const isTransientError = (e: unknown): boolean => {
+  const status = (e as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  // fetch rejects with a TypeError when the connection fails.
+  return e instanceof TypeError;
+};
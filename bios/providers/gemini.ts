@@ -0,0 +1,41 @@
+import { JsonSchema, LlmProvider } from './types';
+
+// Gemini expects upper-case type names (its `Type` enum) but is otherwise JSON Schema.
+const toGeminiSchema = (schema: JsonSchema): Record<string, unknown> => ({
+  ...schema,
+  type: schema.type.toUpperCase(),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+});
+
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  keyRequirement: 'required',
+  generateJson: async (request, settings, { signal, onText, apiKey }) => {
+    // Loaded lazily so a CDN failure only breaks Gemini calls, not the BIOS.
+    const { GoogleGenAI } = await import('@google/genai');
+    const ai = new GoogleGenAI({ apiKey });
+    const stream = await ai.models.generateContentStream({
+      model: settings.model,
+      contents: request.prompt,
+      config: {
+        temperature: settings.temperature,
+        topP: 0.9,
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+        abortSignal: signal,
+      },
+    });
+    let text = '';
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      text += chunk.text ?? '';
+      onText?.(text);
+    }
+    return text;
+  },
+};
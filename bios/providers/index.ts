@@ -0,0 +1,230 @@
+// The BIOS LLM provider layer.
+// The OS never talks to a model vendor directly: it calls `generateJson` with a
+// prompt and a response schema, and the BIOS routes the call to the provider,
+// model and temperature chosen in the project's settings, with the provider's
+// key from the vault.
+import { KeyRequirement, LlmProvider, LlmRequest, LlmRequestOptions, LlmSettings } from './types';
+import { geminiProvider } from './gemini';
+import { openAiCompatibleProvider } from './openai';
+import { mockProvider } from './mock';
+import { Cassette, CassetteEntry, findRecording, hashPrompt } from './cassette';
+import { LlmKeyError, LlmTimeoutError, isAbortError, isTransientError } from './errors';
+import { projectScopedKey } from '../scope';
+import { VaultStatus, getVault } from '../vault';
+
+export type { EditFormat, JsonSchema, KeyRequirement, LlmProvider, LlmRequest, LlmRequestOptions, LlmSettings } from './types';
+export { LlmHttpError, LlmKeyError, LlmTimeoutError, isAbortError } from './errors';
+export type { Cassette, CassetteEntry, CassetteMode } from './cassette';
+export {
+  CASSETTE_DOCUMENT,
+  CASSETTE_STORAGE_KEY,
+  EMPTY_CASSETTE,
+  addRecording,
+  parseCassette,
+  parseStoredCassette,
+} from './cassette';
+
+export const LLM_SETTINGS_STORAGE_KEY = 'self-evolving-llm-settings-v1';
+
+export const PROVIDERS: LlmProvider[] = [geminiProvider, openAiCompatibleProvider, mockProvider];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: geminiProvider.id,
+  model: geminiProvider.defaultModel,
+  temperature: 0.1,
+  baseUrl: 'http://localhost:11434/v1',
+  mockResponses: [],
+  cassetteMode: 'off',
+  timeoutSeconds: 120,
+  maxRetries: 2,
+  contextTokenBudget: 24000,
+  editFormat: 'patch',
+  agentMaxSteps: 8,
+  testGate: false,
+};
+
+// The first retry waits about this long; every further one twice as long as the previous.
+const RETRY_BASE_DELAY_MS = 1000;
+
+// 'stored', 'missing' or 'locked' for providers with a key; 'none' for those without.
+export type KeyStatus = 'none' | 'stored' | 'missing' | 'locked';
+
+const keyStatus = (requirement: KeyRequirement, id: string, vault: VaultStatus): KeyStatus => {
+  if (requirement === 'none') return 'none';
+  if (vault.locked) return 'locked';
+  return vault.names.includes(id) ? 'stored' : 'missing';
+};
+
+/**
+ * Provider metadata for the kernel's settings panel, with whether the vault has
+ * each provider's key. The keys themselves stay in the BIOS.
+ */
+export const describeProviders = (vault: VaultStatus = getVault().getStatus()) =>
+  PROVIDERS.map(({ id, label, defaultModel, keyRequirement }) => ({
+    id, label, defaultModel, keyRequirement, keyStatus: keyStatus(keyRequirement, id, vault),
+  }));
+
+/** For providers whose keys are bound to an endpoint: the origin `settings` send requests to, by provider id. */
+export const keyOriginsFor = (settings: LlmSettings): Record<string, string | null> =>
+  Object.fromEntries(PROVIDERS.filter(provider => provider.keyOrigin).map(provider => [provider.id, provider.keyOrigin!(settings)]));
+
+// The provider's key from the vault; a missing required key fails the request before it is sent.
+// A key bound to another origin than the request's is left out.
+const providerKey = (provider: LlmProvider, settings: LlmSettings): string | null => {
+  if (provider.keyRequirement === 'none') {
+    return null;
+  }
+  const vault = getVault();
+  if (vault.getStatus().locked) {
+    throw new LlmKeyError(`The BIOS vault is locked. Unlock it under BIOS → API Keys to use ${provider.label}.`);
+  }
+  const secret = vault.getSecret(provider.id);
+  const origin = provider.keyOrigin ? provider.keyOrigin(settings) : null;
+  if (secret && provider.keyOrigin && secret.origin !== origin) {
+    console.warn(`BIOS: Not sending the stored ${provider.label} key to ${origin ?? settings.baseUrl}: it was stored for ${secret.origin ?? 'no particular endpoint'}. Enter it again under BIOS → API Keys for this endpoint.`);
+  }
+  const apiKey = secret && (!provider.keyOrigin || secret.origin === origin) ? secret.value : null;
+  if (!apiKey && provider.keyRequirement === 'required') {
+    throw new LlmKeyError(`No API key for ${provider.label} is stored. Add one under BIOS → API Keys, or choose another provider in the settings.`);
+  }
+  return apiKey;
+};
+
+// Models sometimes wrap JSON in a markdown code fence despite being asked not to.
+const stripCodeFence = (text: string) => {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : text;
+};
+
+// The cassette a request is recorded to or replayed from.
+export interface CassetteBinding {
+  cassette: Cassette;
+  record: (entry: CassetteEntry) => void;
+}
+
+export interface GenerateOptions extends LlmRequestOptions {
+  cassette?: CassetteBinding;
+  // Called before waiting to retry a failed attempt.
+  onRetry?: (retry: number, error: Error, delayMs: number) => void;
+}
+
+// Settles like `promise`, but rejects with the abort reason as soon as `signal` aborts,
+// so a provider that ignores its signal cannot keep the caller waiting.
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+  const onAbort = () => reject(signal.reason);
+  if (signal.aborted) return onAbort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal ?? new AbortController().signal);
+
+// A single provider call, aborted by the caller or after the configured timeout.
+const callProvider = async (settings: LlmSettings, request: LlmRequest, { signal, onText }: LlmRequestOptions): Promise<string> => {
+  const provider = PROVIDERS.find(p => p.id === settings.provider);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider '${settings.provider}'.`);
+  }
+  const apiKey = providerKey(provider, settings);
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new LlmTimeoutError(settings.timeoutSeconds)), settings.timeoutSeconds * 1000);
+  try {
+    signal?.throwIfAborted();
+    return await abortable(provider.generateJson(request, settings, { signal: controller.signal, onText, apiKey }), controller.signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+// Retries rate limits and server errors with exponential backoff; everything else fails immediately.
+const callProviderWithRetry = async (settings: LlmSettings, request: LlmRequest, options: GenerateOptions): Promise<string> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await callProvider(settings, request, options);
+    } catch (e) {
+      if (isAbortError(e) || retry >= settings.maxRetries || !isTransientError(e)) throw e;
+      const delayMs = Math.round(RETRY_BASE_DELAY_MS * 2 ** retry * (1 + Math.random() * 0.25));
+      console.warn(`BIOS: LLM request failed, retrying in ${delayMs}ms:`, e);
+      options.onRetry?.(retry + 1, e as Error, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
+
+/**
+ * Runs a request through the provider chosen in the settings, streaming partial
+ * text to `options.onText`. In the cassette modes, the raw response is recorded
+ * to `options.cassette`, or served from it without calling any provider.
+ */
+export const generateJson = async (settings: LlmSettings, request: LlmRequest, options: GenerateOptions = {}): Promise<string> => {
+  const { cassette } = options;
+  let raw: string;
+  if (cassette && settings.cassetteMode === 'replay') {
+    const promptHash = await hashPrompt(request.prompt);
+    const recording = findRecording(cassette.cassette, promptHash);
+    if (!recording) {
+      throw new Error(`The cassette has no recorded response for this prompt (hash ${promptHash.slice(0, 12)}). Record it first, or switch the cassette off.`);
+    }
+    raw = recording.response;
+    options.onText?.(raw);
+  } else {
+    raw = await callProviderWithRetry(settings, request, options);
+    if (cassette && settings.cassetteMode === 'record') {
+      cassette.record({
+        promptHash: await hashPrompt(request.prompt),
+        prompt: request.prompt,
+        response: raw,
+        provider: settings.provider,
+        model: settings.model,
+        recordedAt: Date.now(),
+      });
+    }
+  }
+  const text = stripCodeFence(raw);
+  if (!text) {
+    throw new Error("Received an empty response from the AI.");
+  }
+  return text;
+};
+
+export const loadLlmSettings = (projectId: string): LlmSettings => {
+  try {
+    const saved = window.localStorage.getItem(projectScopedKey(LLM_SETTINGS_STORAGE_KEY, projectId));
+    if (!saved) {
+      return DEFAULT_LLM_SETTINGS;
+    }
+    // Settings saved before the vault existed carry the OpenAI-compatible key.
+    const { apiKey, ...settings } = JSON.parse(saved);
+    const loaded: LlmSettings = { ...DEFAULT_LLM_SETTINGS, ...settings };
+    if (apiKey) {
+      // It was used with the endpoint these settings name, so it stays bound to that.
+      adoptLegacyKey(openAiCompatibleProvider.id, apiKey, openAiCompatibleProvider.keyOrigin!(loaded));
+      saveLlmSettings(projectId, loaded);
+    }
+    return loaded;
+  } catch (e) {
+    console.error("Failed to load LLM settings from localStorage", e);
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+// Moves a key into the vault unless the vault already has one or is encrypted,
+// in which case the user re-enters it there.
+const adoptLegacyKey = (name: string, apiKey: string, origin: string | null) => {
+  const vault = getVault();
+  if (!vault.getStatus().encrypted && !vault.getSecret(name)) {
+    vault.setSecret(name, apiKey, origin).catch(e => console.error("Failed to move the API key into the vault", e));
+  }
+};
+
+export const saveLlmSettings = (projectId: string, settings: LlmSettings) => {
+  try {
+    window.localStorage.setItem(projectScopedKey(LLM_SETTINGS_STORAGE_KEY, projectId), JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save LLM settings to localStorage", e);
+  }
+};
@@ -0,0 +1,27 @@
+import { LlmProvider } from './types';
+
+// Position in the current script. It restarts whenever a different script is configured.
+let script: string[] | null = null;
+let position = 0;
+
+// Serves the scripted responses from the settings in order, without any network access.
+// Useful for exercising the evolution pipeline by hand or in automated runs.
+export const mockProvider: LlmProvider = {
+  id: 'mock',
+  label: 'Scripted mock',
+  defaultModel: 'mock',
+  keyRequirement: 'none',
+  generateJson: async (_request, settings, { signal, onText }) => {
+    signal?.throwIfAborted();
+    if (script !== settings.mockResponses) {
+      script = settings.mockResponses;
+      position = 0;
+    }
+    if (position >= script.length) {
+      throw new Error(`The mock provider has no scripted responses left (${script.length} configured).`);
+    }
+    const text = script[position++];
+    onText?.(text);
+    return text;
+  },
+};
@@ -0,0 +1,76 @@
+import { JsonSchema, LlmProvider } from './types';
+import { LlmHttpError } from './errors';
+import { originOf } from '../vault';
+
+// Strips the Gemini-only `propertyOrdering` hint, which strict JSON Schema validators reject.
+const toJsonSchema = (schema: JsonSchema): Record<string, unknown> => {
+  const { propertyOrdering, ...rest } = schema;
+  return {
+    ...rest,
+    ...(schema.properties && {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+    }),
+    ...(schema.items && { items: toJsonSchema(schema.items) }),
+  };
+};
+
+// Talks to any endpoint implementing the OpenAI chat completions API,
+// including local llama.cpp (`llama-server`) and Ollama (`/v1`) servers.
+export const openAiCompatibleProvider: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible endpoint',
+  defaultModel: 'gpt-4o-mini',
+  keyRequirement: 'optional',
+  keyOrigin: (settings) => originOf(settings.baseUrl),
+  generateJson: async (request, settings, { signal, onText, apiKey }) => {
+    if (!settings.baseUrl) {
+      throw new Error("No base URL configured for the OpenAI-compatible provider.");
+    }
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        stream: true,
+        messages: [{ role: 'user', content: request.prompt }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: toJsonSchema(request.schema) },
+        },
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new LlmHttpError(`${settings.baseUrl} responded with ${response.status}: ${await response.text()}`, response.status);
+    }
+    if (!response.body) {
+      const data = await response.json();
+      return data?.choices?.[0]?.message?.content ?? '';
+    }
+
+    // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`.
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice('data:'.length).trim();
+        if (payload === '[DONE]') return text;
+        text += JSON.parse(payload)?.choices?.[0]?.delta?.content ?? '';
+        onText?.(text);
+      }
+    }
+    return text;
+  },
+};
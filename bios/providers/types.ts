@@ -0,0 +1,80 @@
+// Shared types for the BIOS LLM provider layer.
+import { CassetteMode } from './cassette';
+
+// The subset of JSON Schema the OS uses to describe structured responses.
+// `propertyOrdering` is a Gemini extension; other adapters drop it.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  propertyOrdering?: string[];
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface LlmRequest {
+  prompt: string;
+  // The response must be a JSON document matching this schema.
+  schema: JsonSchema;
+}
+
+export interface LlmRequestOptions {
+  // Aborts the request, e.g. when the user cancels an evolution.
+  signal?: AbortSignal;
+  // Called with the response text received so far while it streams in.
+  onText?: (textSoFar: string) => void;
+}
+
+// What the provider does to an OS request: the BIOS adds the key from its vault.
+export interface ProviderCallOptions extends LlmRequestOptions {
+  // Null if the provider needs none or none is stored.
+  apiKey: string | null;
+}
+
+// Whether a provider needs an API key from the vault. Local OpenAI-compatible servers usually do not.
+export type KeyRequirement = 'required' | 'optional' | 'none';
+
+// 'patch': the model changes existing files with search/replace edits, or rewrites them
+// when that is simpler. 'full': every change is a complete rewrite of the file.
+export type EditFormat = 'patch' | 'full';
+
+// Per-project model configuration, edited from the kernel's settings panel.
+export interface LlmSettings {
+  provider: string;
+  model: string;
+  temperature: number;
+  // Base URL of an OpenAI-compatible endpoint, e.g. a local llama.cpp or Ollama server.
+  baseUrl: string;
+  // Raw JSON responses served in order by the mock provider.
+  mockResponses: string[];
+  // Whether requests are recorded to, or replayed from, the project's cassette.
+  cassetteMode: CassetteMode;
+  // Per attempt; a request that takes longer is aborted.
+  timeoutSeconds: number;
+  // How often rate-limited or failed requests are retried, with exponential backoff.
+  maxRetries: number;
+  // Roughly how many tokens of related file contents an evolution prompt may include.
+  contextTokenBudget: number;
+  editFormat: EditFormat;
+  // How many steps, fixes included, an agent run may take before it stops.
+  agentMaxSteps: number;
+  // Whether an evolution that makes passing /tests fail is sent back for repair.
+  testGate: boolean;
+}
+
+export interface LlmProvider {
+  id: string;
+  label: string;
+  defaultModel: string;
+  // Its key is stored in the vault under the provider's id.
+  keyRequirement: KeyRequirement;
+  // For providers whose endpoint is configurable: the origin requests with these
+  // settings go to. Their key is only sent when it was stored for that origin.
+  keyOrigin?: (settings: LlmSettings) => string | null;
+  /**
+   * Runs the request and resolves with the raw JSON text of the response,
+   * reporting partial text through `options.onText` if the provider streams.
+   */
+  generateJson: (request: LlmRequest, settings: LlmSettings, options: ProviderCallOptions) => Promise<string>;
+}
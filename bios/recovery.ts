@@ -0,0 +1,45 @@
+// Last-known-good tracking for the BIOS.
+// Whenever the bootloader reports that the kernel booted and stayed up, the BIOS
+// remembers that file set. If a later evolution breaks the boot chain, the user
+// can restore some or all of the differing files instead of a full factory reset.
+// The build is a full copy of the project, so it is kept in IndexedDB next to the files.
+import { ProjectFiles, FileChange, diffFiles } from './history';
+
+export const LAST_KNOWN_GOOD_DOCUMENT = 'lastKnownGood';
+// Where older versions kept the last known good build, in localStorage.
+export const LAST_KNOWN_GOOD_STORAGE_KEY = 'self-evolving-last-known-good-v1';
+
+export const RESTORE_LABEL = 'Restore last working version';
+
+/** The stored last known good build, or null if nothing usable was stored. */
+export const parseLastKnownGood = (value: unknown): ProjectFiles | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  return value as ProjectFiles;
+};
+
+/**
+ * Lists the files that differ between the current project and the last known good build.
+ * `before` is the last working content and `after` the current one.
+ */
+export const diffFromLastKnownGood = (current: ProjectFiles, lastKnownGood: ProjectFiles): Record<string, FileChange> =>
+  diffFiles(lastKnownGood, current);
+
+/**
+ * Puts the selected paths back to their last known good content, leaving every other file untouched.
+ * Paths that did not exist in the last known good build are removed.
+ */
+export const restoreFromLastKnownGood = (current: ProjectFiles, lastKnownGood: ProjectFiles, paths: string[]): ProjectFiles => {
+  const result = { ...current };
+  for (const path of paths) {
+    if (Object.prototype.hasOwnProperty.call(lastKnownGood, path)) {
+      result[path] = lastKnownGood[path];
+    } else {
+      delete result[path];
+    }
+  }
+  return result;
+};
+
+export const isBootFile = (path: string) => path.startsWith('/boot/');
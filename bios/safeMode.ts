@@ -0,0 +1,21 @@
+// Safe mode.
+// The BIOS boots the factory bootloader and kernel (and everything they import)
+// from INITIAL_PROJECT, while the editor keeps working on the project's own
+// files. Broken boot files can then be opened and repaired by hand.
+
+export const SAFE_MODE_PARAM = 'safemode';
+
+// Holding this key while the BIOS starts up enters safe mode, like a PC's boot menu key.
+export const SAFE_MODE_KEY = 'Shift';
+
+export const isSafeModeRequested = (search = window.location.search) =>
+  new URLSearchParams(search).has(SAFE_MODE_PARAM);
+
+/** Drops the URL flag so that a reload boots normally again. */
+export const clearSafeModeFlag = () => {
+  const url = new URL(window.location.href);
+  if (url.searchParams.has(SAFE_MODE_PARAM)) {
+    url.searchParams.delete(SAFE_MODE_PARAM);
+    window.history.replaceState(null, '', url);
+  }
+};
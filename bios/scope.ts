@@ -0,0 +1,8 @@
+// Every project keeps its own copy of each kind of BIOS state (history, last
+// known good build, model settings, ...). In localStorage that copy lives under
+// the state's base key suffixed with the project id.
+
+export const projectScopedKey = (baseKey: string, projectId: string) => `${baseKey}:${projectId}`;
+
+// The project that data from before multiple projects existed is moved into.
+export const DEFAULT_PROJECT_ID = 'default';
@@ -0,0 +1,63 @@
+// Evolution chat sessions.
+// The kernel keeps its evolutions as threaded conversations: the user's goals,
+// the model's summaries and the diffs that were applied, so a goal can refer to
+// earlier turns. Every message names its parent, which makes a session a tree:
+// branching from an earlier message starts a new thread next to the old one.
+// The BIOS only persists the sessions per project, as an IndexedDB document next
+// to the history; the OS decides what goes in.
+
+export const CHAT_SESSIONS_DOCUMENT = 'chatSessions';
+// Where older versions kept the sessions, in localStorage.
+export const CHAT_SESSIONS_STORAGE_KEY = 'self-evolving-chat-sessions-v1';
+
+export interface ChatMessage {
+  id: string;
+  // Null for the first message of a thread.
+  parentId: string | null;
+  role: 'user' | 'model';
+  time: number;
+  // The goal, or the model's summary of its proposal.
+  text: string;
+  // The file the goal was about; only on user messages.
+  targetFilePath?: string;
+  // Model messages: what became of the proposal.
+  status?: 'proposed' | 'applied' | 'discarded' | 'failed';
+  // Model messages: the applied changes as a compact diff.
+  diff?: string;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  messages: ChatMessage[];
+  // The last message of the thread the session continues; null before the first message.
+  headId: string | null;
+}
+
+export interface ChatSessions {
+  version: 1;
+  sessions: ChatSession[];
+  activeId: string | null;
+}
+
+export const EMPTY_CHAT_SESSIONS: ChatSessions = { version: 1, sessions: [], activeId: null };
+
+const isChatSessions = (value: any): value is ChatSessions =>
+  !!value && value.version === 1 && Array.isArray(value.sessions) &&
+  value.sessions.every((session: any) => typeof session?.id === 'string' && Array.isArray(session.messages));
+
+/**
+ * Checks the sessions the kernel hands over.
+ * @throws If `value` is not a version 1 sessions document, so the kernel learns about its bug.
+ */
+export const parseChatSessions = (value: unknown): ChatSessions => {
+  if (!isChatSessions(value)) {
+    throw new Error("Chat sessions must be a version 1 document with a list of sessions.");
+  }
+  return value;
+};
+
+/** The stored sessions, or none if nothing usable was stored. */
+export const parseStoredChatSessions = (value: unknown): ChatSessions =>
+  isChatSessions(value) ? value : EMPTY_CHAT_SESSIONS;
@@ -0,0 +1,451 @@
+// IndexedDB storage for the project files.
+// Every file is its own record, so a save only writes the files that changed,
+// and writes are debounced so typing in the editor does not hit the database on
+// every keystroke. Records are keyed by project id and path, so all projects
+// share one database. Projects saved by older versions as a single localStorage
+// blob are moved over on first load.
+// The larger kinds of per-project BIOS state, such as the history, are stored
+// next to the files as documents: one record per project and name, written the
+// same debounced way, so they do not compete for localStorage's small quota.
+import { ProjectFiles, diffFiles } from './history';
+import { DEFAULT_PROJECT_ID, projectScopedKey } from './scope';
+
+// Where older versions kept the whole project as one JSON string.
+export const LEGACY_PROJECT_STORAGE_KEY = 'self-evolving-project-files-v2';
+
+const DB_NAME = 'self-evolving-os';
+// Version 1 stored the files of the only project in LEGACY_FILES_STORE, keyed by path.
+// Version 2 had no documents.
+const DB_VERSION = 3;
+const FILES_STORE = 'projectFiles';
+const DOCUMENTS_STORE = 'projectDocuments';
+const LEGACY_FILES_STORE = 'files';
+
+// How long the writer waits for further changes before writing them.
+const WRITE_DEBOUNCE_MS = 500;
+
+interface FileRecord {
+  projectId: string;
+  path: string;
+  content: string;
+  updatedAt: number;
+}
+
+interface DocumentRecord {
+  projectId: string;
+  name: string;
+  value: unknown;
+  updatedAt: number;
+}
+
+export interface StorageStatus {
+  // 'memory' means IndexedDB is unavailable and nothing survives a reload.
+  backend: 'indexeddb' | 'memory';
+  // Changed files not written yet.
+  pendingWrites: number;
+  // Size of the project's file contents.
+  projectBytes: number;
+  // Origin-wide usage and quota as reported by the browser, if it does.
+  usedBytes: number | null;
+  quotaBytes: number | null;
+  error: string | null;
+  // Why documents (see DocumentWriter) could not be saved; they are kept in memory meanwhile.
+  documentError: string | null;
+}
+
+export const INITIAL_STORAGE_STATUS: StorageStatus = {
+  backend: 'indexeddb',
+  pendingWrites: 0,
+  projectBytes: 0,
+  usedBytes: null,
+  quotaBytes: null,
+  error: null,
+  documentError: null,
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  // Quota errors abort the transaction rather than failing a single request.
+  transaction.onabort = () => reject(transaction.error ?? new Error("The storage transaction was aborted."));
+  transaction.onerror = () => reject(transaction.error);
+});
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 2) {
+          const files = db.createObjectStore(FILES_STORE, { keyPath: ['projectId', 'path'] });
+          if (event.oldVersion === 1) {
+            const legacy = request.transaction!.objectStore(LEGACY_FILES_STORE);
+            legacy.getAll().onsuccess = (e) => {
+              for (const record of (e.target as IDBRequest<FileRecord[]>).result) {
+                files.put({ ...record, projectId: DEFAULT_PROJECT_ID });
+              }
+              db.deleteObjectStore(LEGACY_FILES_STORE);
+            };
+          }
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(DOCUMENTS_STORE, { keyPath: ['projectId', 'name'] });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("The project database is blocked by another open tab."));
+    });
+    // Let a later call try again instead of caching the failure.
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+// Every key of one project: [projectId] sorts before [projectId, path], and arrays after strings.
+const projectRange = (projectId: string) => IDBKeyRange.bound([projectId], [projectId, []]);
+
+export const isQuotaError = (e: unknown): boolean =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/** @returns The stored project files, or null if nothing has been stored yet. */
+export const loadStoredFiles = async (projectId: string): Promise<ProjectFiles | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE);
+  const records = await requestResult<FileRecord[]>(store.getAll(projectRange(projectId)));
+  if (records.length === 0) {
+    return null;
+  }
+  return Object.fromEntries(records.map(record => [record.path, record.content]));
+};
+
+/** Writes the given files in one transaction. A null content deletes the file. */
+export const writeStoredFiles = async (projectId: string, changes: Record<string, string | null>) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(FILES_STORE, 'readwrite');
+  const store = transaction.objectStore(FILES_STORE);
+  const done = transactionDone(transaction);
+  const now = Date.now();
+  try {
+    for (const [path, content] of Object.entries(changes)) {
+      if (content === null) {
+        store.delete([projectId, path]);
+      } else {
+        store.put({ projectId, path, content, updatedAt: now } as FileRecord);
+      }
+    }
+  } catch (e) {
+    // Nothing of a failed batch may be committed.
+    transaction.abort();
+    done.catch(() => {});
+    throw e;
+  }
+  await done;
+};
+
+/** Replaces every stored file of the project with the given set. */
+export const replaceStoredFiles = async (projectId: string, files: ProjectFiles) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(FILES_STORE, 'readwrite');
+  const store = transaction.objectStore(FILES_STORE);
+  const done = transactionDone(transaction);
+  const now = Date.now();
+  try {
+    store.delete(projectRange(projectId));
+    for (const [path, content] of Object.entries(files)) {
+      store.put({ projectId, path, content, updatedAt: now } as FileRecord);
+    }
+  } catch (e) {
+    transaction.abort();
+    done.catch(() => {});
+    throw e;
+  }
+  await done;
+};
+
+export const clearStoredFiles = async (projectId: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(FILES_STORE, 'readwrite');
+  transaction.objectStore(FILES_STORE).delete(projectRange(projectId));
+  await transactionDone(transaction);
+};
+
+/**
+ * Moves a project saved as a single localStorage blob into IndexedDB.
+ * The blob is only removed once the files have been written.
+ * @returns The migrated files, or null if there was nothing to migrate.
+ */
+export const migrateLegacyStorage = async (projectId: string): Promise<ProjectFiles | null> => {
+  const saved = window.localStorage.getItem(LEGACY_PROJECT_STORAGE_KEY);
+  if (!saved) {
+    return null;
+  }
+  const files: ProjectFiles = JSON.parse(saved);
+  await replaceStoredFiles(projectId, files);
+  window.localStorage.removeItem(LEGACY_PROJECT_STORAGE_KEY);
+  console.log(`BIOS: Migrated ${Object.keys(files).length} files from localStorage to IndexedDB.`);
+  return files;
+};
+
+/**
+ * Reads one of the project's documents. A document an older version kept in
+ * localStorage, under the project-scoped `legacyKey`, is moved over first.
+ * @returns The stored value, or null if there is none.
+ */
+export const loadStoredDocument = async <T>(projectId: string, name: string, legacyKey: string): Promise<T | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE);
+  const record = await requestResult<DocumentRecord | undefined>(store.get([projectId, name]));
+  if (record) {
+    return record.value as T;
+  }
+  const key = projectScopedKey(legacyKey, projectId);
+  const saved = window.localStorage.getItem(key);
+  if (saved === null) {
+    return null;
+  }
+  let value: T;
+  try {
+    value = JSON.parse(saved);
+  } catch (e) {
+    console.warn(`BIOS: Ignoring unreadable ${legacyKey} in localStorage.`, e);
+    return null;
+  }
+  await writeStoredDocuments(projectId, { [name]: value });
+  window.localStorage.removeItem(key);
+  return value;
+};
+
+/** Writes the given documents in one transaction. A null value deletes the document. */
+export const writeStoredDocuments = async (projectId: string, changes: Record<string, unknown>) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+  const store = transaction.objectStore(DOCUMENTS_STORE);
+  const done = transactionDone(transaction);
+  const now = Date.now();
+  try {
+    for (const [name, value] of Object.entries(changes)) {
+      if (value === null) {
+        store.delete([projectId, name]);
+      } else {
+        store.put({ projectId, name, value, updatedAt: now } as DocumentRecord);
+      }
+    }
+  } catch (e) {
+    transaction.abort();
+    done.catch(() => {});
+    throw e;
+  }
+  await done;
+};
+
+/** Gives the project `targetId` a copy of every document of `sourceId`. */
+export const copyStoredDocuments = async (sourceId: string, targetId: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+  const store = transaction.objectStore(DOCUMENTS_STORE);
+  const done = transactionDone(transaction);
+  // Put from the request's own callback, while the transaction is certainly still active.
+  store.getAll(projectRange(sourceId)).onsuccess = (e) => {
+    for (const record of (e.target as IDBRequest<DocumentRecord[]>).result) {
+      store.put({ ...record, projectId: targetId });
+    }
+  };
+  await done;
+};
+
+export const clearStoredDocuments = async (projectId: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+  transaction.objectStore(DOCUMENTS_STORE).delete(projectRange(projectId));
+  await transactionDone(transaction);
+};
+
+export const measureProject = (files: ProjectFiles): number =>
+  Object.values(files).reduce((total, content) => total + new Blob([content]).size, 0);
+
+export const estimateUsage = async (): Promise<Pick<StorageStatus, 'usedBytes' | 'quotaBytes'>> => {
+  if (!navigator.storage?.estimate) {
+    return { usedBytes: null, quotaBytes: null };
+  }
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return { usedBytes: usage ?? null, quotaBytes: quota ?? null };
+  } catch (e) {
+    console.warn("Failed to estimate storage usage", e);
+    return { usedBytes: null, quotaBytes: null };
+  }
+};
+
+export interface FileWriter {
+  /** Queues the difference between two file sets for writing. */
+  schedule: (previous: ProjectFiles, next: ProjectFiles) => void;
+  /** Writes everything queued right away. */
+  flush: () => Promise<void>;
+  /** Drops everything queued, e.g. before the stored files are wiped, and waits for a write in progress. */
+  cancel: () => Promise<void>;
+}
+
+/**
+ * Creates a writer that batches file changes and writes them after a short pause.
+ * Failed writes stay queued and are retried with the next change, so a full
+ * disk loses nothing that is still in memory.
+ * @param onStatus Receives status updates after every write attempt.
+ */
+export const createFileWriter = (projectId: string, onStatus: (update: Partial<StorageStatus>) => void): FileWriter => {
+  let pending: Record<string, string | null> = {};
+  let latestFiles: ProjectFiles = {};
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    writing = writing.then(async () => {
+      const batch = pending;
+      if (Object.keys(batch).length === 0) return;
+      pending = {};
+      try {
+        await writeStoredFiles(projectId, batch);
+        onStatus({
+          pendingWrites: Object.keys(pending).length,
+          projectBytes: measureProject(latestFiles),
+          error: null,
+          ...(await estimateUsage()),
+        });
+      } catch (e) {
+        // Keep the failed batch, unless a newer change to the same file has been queued meanwhile.
+        pending = { ...batch, ...pending };
+        console.error("Failed to write project files to IndexedDB", e);
+        onStatus({
+          pendingWrites: Object.keys(pending).length,
+          error: isQuotaError(e)
+            ? "Storage is full, so recent changes are only kept in memory. Delete large files or free up browser storage; saving resumes with the next change."
+            : `Failed to save project files: ${e instanceof Error ? e.message : String(e)}`,
+        });
+      }
+    });
+    return writing;
+  };
+
+  const schedule = (previous: ProjectFiles, next: ProjectFiles) => {
+    for (const [path, change] of Object.entries(diffFiles(previous, next))) {
+      pending[path] = change.after;
+    }
+    latestFiles = next;
+    onStatus({ pendingWrites: Object.keys(pending).length });
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, WRITE_DEBOUNCE_MS);
+  };
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    pending = {};
+    return writing;
+  };
+
+  return { schedule, flush, cancel };
+};
+
+export interface DocumentWriter {
+  /** Queues a new value of the document `name` for writing; null deletes it. */
+  schedule: (name: string, value: unknown) => void;
+  /**
+   * Writes a new value of the document `name` right away, with anything queued.
+   * @throws If the write fails. The document then stays as it was stored, for callers
+   *   that must not show a change that would be lost on reload.
+   */
+  write: (name: string, value: unknown) => Promise<void>;
+  flush: () => Promise<void>;
+  cancel: () => Promise<void>;
+}
+
+const describeDocuments = (names: string[], labels: Record<string, string>) => {
+  const described = names.map(name => labels[name] ?? name);
+  return described.length > 1 ? `${described.slice(0, -1).join(', ')} and ${described[described.length - 1]}` : described[0];
+};
+
+/**
+ * Creates a writer for the project's documents that, like the file writer, waits
+ * for a pause in the changes and keeps failed writes queued for the next attempt.
+ * Only the latest value of each document is written.
+ * @param labels How the status names each document, e.g. 'the history'.
+ * @param onStatus Receives the documentError after every write attempt.
+ */
+export const createDocumentWriter = (
+  projectId: string,
+  labels: Record<string, string>,
+  onStatus: (update: Partial<StorageStatus>) => void
+): DocumentWriter => {
+  let pending: Record<string, unknown> = {};
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  // Why the last write failed, or null if it succeeded.
+  let lastError: unknown = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    writing = writing.then(async () => {
+      const batch = pending;
+      if (Object.keys(batch).length === 0) return;
+      pending = {};
+      try {
+        await writeStoredDocuments(projectId, batch);
+        lastError = null;
+        onStatus({ documentError: null });
+      } catch (e) {
+        lastError = e;
+        pending = { ...batch, ...pending };
+        console.error("Failed to write project documents to IndexedDB", e);
+        const described = describeDocuments(Object.keys(batch), labels);
+        onStatus({
+          documentError: isQuotaError(e)
+            ? `Storage is full, so changes to ${described} are only kept in memory. Free up browser storage; saving resumes with the next change.`
+            : `Failed to save ${described}: ${e instanceof Error ? e.message : String(e)}`,
+        });
+      }
+    });
+    return writing;
+  };
+
+  const schedule = (name: string, value: unknown) => {
+    pending[name] = value;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, WRITE_DEBOUNCE_MS);
+  };
+
+  const write = async (name: string, value: unknown) => {
+    pending[name] = value;
+    await flush();
+    if (lastError) {
+      if (pending[name] === value) delete pending[name];
+      throw lastError;
+    }
+  };
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    pending = {};
+    return writing;
+  };
+
+  return { schedule, write, flush, cancel };
+};
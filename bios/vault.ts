@@ -0,0 +1,221 @@
+// The BIOS secrets vault.
+// Provider API keys are entered on the BIOS's own settings screen and kept in this
+// browser's localStorage, optionally encrypted with a passphrase (AES-GCM with a
+// key derived by PBKDF2). The BIOS never hands a key to the OS: it reads a key when
+// it calls the provider on the OS's behalf, and the OS only learns whether one is
+// stored. Only an encrypted vault keeps the keys from evolved code, though. The OS
+// runs in the same origin and can read localStorage itself, so without a passphrase
+// any OS code can read the keys. Keys belong to the user, not to a project, so every
+// project shares them. A key for a configurable endpoint is stored with the origin it
+// was entered for, and the provider layer only sends it there.
+
+export const VAULT_STORAGE_KEY = 'self-evolving-vault-v1';
+
+const PBKDF2_ITERATIONS = 310000;
+
+export interface Secret {
+  value: string;
+  // The origin the secret may be sent to, e.g. 'http://localhost:11434'. Null when it
+  // is not bound to one: keys for fixed endpoints, and keys stored before origins were.
+  origin: string | null;
+}
+
+// Secrets by name; the provider layer names them after the provider id.
+export type Secrets = Record<string, Secret>;
+
+// Older versions stored every secret as a plain string.
+type StoredSecrets = Record<string, Secret | string>;
+
+type StoredVault =
+  | { version: 1; encrypted: false; secrets: StoredSecrets }
+  | { version: 1; encrypted: true; salt: string; iv: string; ciphertext: string };
+
+/** What the vault may tell about itself, without revealing any secret. */
+export interface VaultStatus {
+  encrypted: boolean;
+  // An encrypted vault is locked until it is unlocked with the passphrase, once per page load.
+  locked: boolean;
+  // Names of the stored secrets; empty while locked.
+  names: string[];
+  // The origin each stored secret is bound to, by name.
+  origins: Record<string, string | null>;
+}
+
+export interface Vault {
+  // A new object whenever something changed, so it can be kept in React state.
+  getStatus(): VaultStatus;
+  // For the BIOS only. Null if the secret is not stored or the vault is locked.
+  getSecret(name: string): Secret | null;
+  /**
+   * Stores a secret, or removes it when `value` is empty. The vault must be unlocked.
+   * @param origin The only origin the secret may be sent to, if it is bound to one.
+   */
+  setSecret(name: string, value: string, origin?: string | null): Promise<void>;
+  /** @throws If the passphrase is wrong. */
+  unlock(passphrase: string): Promise<void>;
+  lock(): void;
+  /** Encrypts the vault with a new passphrase, or stores it in plain text when null. */
+  setPassphrase(passphrase: string | null): Promise<void>;
+  // Forgets every secret, e.g. after the passphrase was forgotten.
+  reset(): void;
+  subscribe(listener: () => void): () => void;
+}
+
+/** The origin of `url`, or null if it is not a valid absolute URL. */
+export const originOf = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch (e) {
+    return null;
+  }
+};
+
+const normalizeSecrets = (stored: StoredSecrets): Secrets =>
+  Object.fromEntries(Object.entries(stored).map(([name, secret]) => [
+    name,
+    typeof secret === 'string' ? { value: secret, origin: null } : secret,
+  ]));
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readStoredVault = (): StoredVault | null => {
+  try {
+    const saved = window.localStorage.getItem(VAULT_STORAGE_KEY);
+    const stored = saved ? JSON.parse(saved) : null;
+    return stored?.version === 1 ? stored : null;
+  } catch (e) {
+    console.error("Failed to load the vault from localStorage", e);
+    return null;
+  }
+};
+
+const writeStoredVault = (stored: StoredVault | null) => {
+  try {
+    if (stored) {
+      window.localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(stored));
+    } else {
+      window.localStorage.removeItem(VAULT_STORAGE_KEY);
+    }
+  } catch (e) {
+    console.error("Failed to save the vault to localStorage", e);
+  }
+};
+
+const createVault = (): Vault => {
+  const initial = readStoredVault();
+  // Null while locked.
+  let secrets: Secrets | null = !initial ? {} : 'secrets' in initial ? normalizeSecrets(initial.secrets) : null;
+  // The passphrase's key and salt, kept while unlocked so changes can be encrypted again.
+  let encryption: { key: CryptoKey; salt: Uint8Array } | null = null;
+  let encrypted = !!initial?.encrypted;
+  const listeners = new Set<() => void>();
+
+  const computeStatus = (): VaultStatus => ({
+    encrypted,
+    locked: secrets === null,
+    names: Object.keys(secrets ?? {}).sort(),
+    origins: Object.fromEntries(Object.entries(secrets ?? {}).map(([name, secret]) => [name, secret.origin])),
+  });
+  let status = computeStatus();
+
+  const changed = () => {
+    status = computeStatus();
+    listeners.forEach(listener => listener());
+  };
+
+  const persist = async (next: Secrets) => {
+    if (encryption) {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, encryption.key, new TextEncoder().encode(JSON.stringify(next)));
+      writeStoredVault({ version: 1, encrypted: true, salt: toBase64(encryption.salt), iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) });
+    } else {
+      writeStoredVault({ version: 1, encrypted: false, secrets: next });
+    }
+    secrets = next;
+    encrypted = !!encryption;
+    changed();
+  };
+
+  const unlocked = (): Secrets => {
+    if (!secrets) {
+      throw new Error("The vault is locked. Unlock it with its passphrase first.");
+    }
+    return secrets;
+  };
+
+  return {
+    getStatus: () => status,
+    getSecret: (name) => secrets?.[name] || null,
+    setSecret: async (name, value, origin = null) => {
+      const { [name]: _previous, ...rest } = unlocked();
+      await persist(value ? { ...rest, [name]: { value, origin } } : rest);
+    },
+    unlock: async (passphrase) => {
+      const stored = readStoredVault();
+      if (!stored?.encrypted) {
+        return;
+      }
+      const salt = fromBase64(stored.salt);
+      const key = await deriveKey(passphrase, salt);
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.ciphertext));
+      } catch (e) {
+        // AES-GCM authenticates the data, so a wrong key fails here instead of producing garbage.
+        throw new Error("Wrong passphrase.");
+      }
+      encryption = { key, salt };
+      secrets = normalizeSecrets(JSON.parse(new TextDecoder().decode(plaintext)));
+      changed();
+    },
+    lock: () => {
+      if (!encrypted) return;
+      secrets = null;
+      encryption = null;
+      changed();
+    },
+    setPassphrase: async (passphrase) => {
+      const current = unlocked();
+      if (passphrase) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        encryption = { key: await deriveKey(passphrase, salt), salt };
+      } else {
+        encryption = null;
+      }
+      await persist(current);
+    },
+    reset: () => {
+      writeStoredVault(null);
+      secrets = {};
+      encryption = null;
+      encrypted = false;
+      changed();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+let sharedVault: Vault | null = null;
+
+/** The browser's vault, loaded on first use. */
+export const getVault = (): Vault => {
+  if (!sharedVault) {
+    sharedVault = createVault();
+  }
+  return sharedVault;
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ProjectFiles, diffFiles } from '../bios/history';
+import { BootSlot } from '../bios/bootSlots';
+import { HealthCheckResult } from '../bios/healthCheck';
+
+interface BootCandidatePanelProps {
+  candidate: ProjectFiles;
+  activeSlot: BootSlot;
+  isTesting: boolean;
+  // The result of a finished check against this candidate, or null.
+  result: HealthCheckResult | null;
+  // Why promoting this candidate failed, or null.
+  promoteError: string | null;
+  onTest: () => void;
+  onPromote: () => void;
+  onDiscard: () => void;
+}
+
+// Rendered by the BIOS while the project's boot files differ from the active boot
+// slot. The changes only take effect once the candidate is tested and promoted.
+const BootCandidatePanel: React.FC<BootCandidatePanelProps> = ({
+  candidate, activeSlot, isTesting, result, promoteError, onTest, onPromote, onDiscard,
+}) => {
+  const changedPaths = Object.keys(diffFiles(activeSlot.files, candidate)).sort();
+  const isHealthy = !!result && !result.error;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] w-80 bg-slate-900/95 border border-blue-600 text-slate-200 text-xs p-3 rounded-md shadow-lg">
+      <strong className="font-bold text-blue-300">Boot candidate</strong>
+      <p className="mt-1 text-slate-400">
+        These boot files changed since the active slot. They are not running yet.
+      </p>
+      <ul className="mt-2 max-h-24 overflow-y-auto font-mono text-slate-300">
+        {changedPaths.map(path => <li key={path} className="truncate" title={path}>{path}</li>)}
+      </ul>
+      {isTesting && <p className="mt-2 text-blue-300">Testing the candidate in an isolated frame...</p>}
+      {result && (
+        <p className={`mt-2 ${result.error ? 'text-red-400' : 'text-green-400'}`}>
+          {result.error
+            ? `Health check failed: ${result.error}`
+            : `Health check passed in ${(result.durationMs / 1000).toFixed(1)}s.`}
+        </p>
+      )}
+      {promoteError && <p className="mt-2 text-red-400">{promoteError}</p>}
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={onTest}
+          disabled={isTesting}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-1 px-2 rounded">
+          {result ? 'Test Again' : 'Test'}
+        </button>
+        <button
+          onClick={onPromote}
+          disabled={!isHealthy}
+          title={isHealthy ? undefined : "Only a candidate that passed the health check can be promoted."}
+          className="bg-green-700 hover:bg-green-800 disabled:opacity-50 text-white font-bold py-1 px-2 rounded">
+          Promote
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={isTesting}
+          className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white font-bold py-1 px-2 rounded">
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BootCandidatePanel;
@@ -0,0 +1,250 @@
+import React from 'react';
+import { ImportMode, ProjectBundle, bundleFileName, parseBundle } from '../bios/bundle';
+import { ProjectRegistry } from '../bios/projects';
+import { BootSlots } from '../bios/bootSlots';
+
+interface ProjectMenuProps {
+  registry: ProjectRegistry;
+  // A null source starts the project from the initial template. Resolves to the new project's id.
+  onCreateProject: (name: string, sourceId: string | null) => Promise<string>;
+  onSwitchProject: (id: string) => Promise<void>;
+  onRenameProject: (id: string, name: string) => void;
+  onDeleteProject: (id: string) => Promise<void>;
+  // Null while there is no project to export, e.g. when loading it failed.
+  onExport: (() => ProjectBundle) | null;
+  onImport: (bundle: ProjectBundle, mode: ImportMode) => void;
+  // Null until the project has loaded.
+  bootSlots: BootSlots | null;
+  // Rejects if the rollback could not be saved.
+  onRollBackBootSlot: () => Promise<void>;
+  // Opens the API key settings (see VaultPanel).
+  onOpenKeys: () => void;
+}
+
+// The BIOS menu: a small button in the corner of every screen, including the
+// error screens, that opens project-level tools which work even when the OS
+// cannot boot.
+const ProjectMenu: React.FC<ProjectMenuProps> = ({
+  registry, onCreateProject, onSwitchProject, onRenameProject, onDeleteProject, onExport, onImport,
+  bootSlots, onRollBackBootSlot, onOpenKeys,
+}) => {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [bundle, setBundle] = React.useState<ProjectBundle | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [projectError, setProjectError] = React.useState<string | null>(null);
+  const [slotError, setSlotError] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const close = () => {
+    setIsOpen(false);
+    setBundle(null);
+    setError(null);
+    setProjectError(null);
+    setSlotError(null);
+  };
+
+  const runProjectAction = async (action: () => Promise<unknown> | void) => {
+    try {
+      setProjectError(null);
+      await action();
+    } catch (e: any) {
+      setProjectError(e.message);
+    }
+  };
+
+  const handleNewProject = () => {
+    const name = window.prompt("Name of the new project:", "Untitled Project")?.trim();
+    if (!name) return;
+    runProjectAction(async () => onSwitchProject(await onCreateProject(name, null)));
+  };
+
+  const handleDuplicateProject = (id: string, name: string) => {
+    const copyName = window.prompt("Name of the copy:", `${name} (copy)`)?.trim();
+    if (!copyName) return;
+    runProjectAction(() => onCreateProject(copyName, id));
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    const nextName = window.prompt("New project name:", name)?.trim();
+    if (!nextName || nextName === name) return;
+    runProjectAction(() => onRenameProject(id, nextName));
+  };
+
+  const handleDeleteProject = (id: string, name: string) => {
+    if (!window.confirm(`Delete the project '${name}' with its files, history and settings? This cannot be undone.`)) {
+      return;
+    }
+    runProjectAction(() => onDeleteProject(id));
+  };
+
+  const handleExport = () => {
+    if (!onExport) return;
+    const blob = new Blob([JSON.stringify(onExport(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = bundleFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setBundle(parseBundle(await file.text()));
+      setError(null);
+    } catch (e: any) {
+      setBundle(null);
+      setError(e.message);
+    }
+  };
+
+  const handleRollBack = () => {
+    if (window.confirm("Boot the previous slot instead of the active one? The current slot stays available to switch back to.")) {
+      setSlotError(null);
+      onRollBackBootSlot().then(close, (e: any) => setSlotError(`The rollback could not be saved: ${e.message}`));
+    }
+  };
+
+  const handleImport = (mode: ImportMode) => {
+    if (!bundle) return;
+    if (mode === 'replace' && !window.confirm("Replace the current project with the bundle? Export it first if you want to keep a copy.")) {
+      return;
+    }
+    onImport(bundle, mode);
+    close();
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 left-4 z-[60] bg-slate-800/90 hover:bg-slate-700 border border-slate-600 text-slate-300 text-xs font-bold py-1 px-3 rounded-md shadow-lg"
+        title="Project tools provided by the BIOS"
+      >
+        BIOS
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-md text-slate-200">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-lg font-bold">BIOS Menu</h2>
+          <button onClick={close} className="text-slate-400 hover:text-slate-200 text-sm">Close</button>
+        </div>
+        <div className="p-4 space-y-4">
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Projects</h3>
+              <button onClick={handleNewProject} className="text-xs text-purple-400 hover:text-purple-300 font-bold">
+                New Project
+              </button>
+            </div>
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {registry.projects.map(project => {
+                const isActive = project.id === registry.activeId;
+                return (
+                  <li key={project.id} className={`flex items-center gap-2 text-sm rounded-md px-2 py-1 ${isActive ? 'bg-slate-800' : ''}`}>
+                    <span className="flex-grow truncate" title={project.name}>
+                      {project.name}
+                      {isActive && <span className="ml-2 text-xs text-green-400">active</span>}
+                    </span>
+                    {!isActive && (
+                      <button onClick={() => runProjectAction(() => onSwitchProject(project.id))} className="text-xs text-slate-300 hover:text-white">Open</button>
+                    )}
+                    <button onClick={() => handleRenameProject(project.id, project.name)} className="text-xs text-slate-400 hover:text-white">Rename</button>
+                    <button onClick={() => handleDuplicateProject(project.id, project.name)} className="text-xs text-slate-400 hover:text-white">Duplicate</button>
+                    {registry.projects.length > 1 && (
+                      <button onClick={() => handleDeleteProject(project.id, project.name)} className="text-xs text-red-400 hover:text-red-300">Delete</button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            {projectError && <p className="mt-2 text-sm text-red-400">{projectError}</p>}
+          </section>
+          <section className="border-t border-slate-700 pt-4">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">API Keys</h3>
+                <p className="mt-1 text-sm text-slate-400">Provider keys, kept by the BIOS for every project.</p>
+              </div>
+              <button
+                onClick={() => { close(); onOpenKeys(); }}
+                className="bg-slate-700 hover:bg-slate-600 text-white font-bold text-sm py-1 px-3 rounded-md">
+                Manage…
+              </button>
+            </div>
+          </section>
+          {bootSlots && (
+            <section className="border-t border-slate-700 pt-4">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Boot Slots</h3>
+              <p className="text-sm text-slate-300">
+                Active: promoted {new Date(bootSlots.active.promotedAt).toLocaleString()}, {Object.keys(bootSlots.active.files).length} boot files.
+              </p>
+              {bootSlots.previous ? (
+                <div className="mt-2 flex items-center justify-between gap-2">
+                  <p className="text-sm text-slate-400">Previous: promoted {new Date(bootSlots.previous.promotedAt).toLocaleString()}.</p>
+                  <button
+                    onClick={handleRollBack}
+                    className="bg-slate-700 hover:bg-slate-600 text-white font-bold text-sm py-1 px-3 rounded-md">
+                    Roll Back
+                  </button>
+                </div>
+              ) : (
+                <p className="mt-1 text-sm text-slate-500">No previous slot yet. Promoting a candidate keeps the current one here.</p>
+              )}
+              {slotError && <p className="mt-2 text-sm text-red-400">{slotError}</p>}
+            </section>
+          )}
+          <section className="border-t border-slate-700 pt-4">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Export</h3>
+            <p className="text-sm text-slate-400 mb-2">Downloads every project file, the history and the model settings (without API keys) as one JSON bundle.</p>
+            <button
+              onClick={handleExport}
+              disabled={!onExport}
+              className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-bold text-sm py-2 px-4 rounded-md">
+              Export Project
+            </button>
+          </section>
+          <section className="border-t border-slate-700 pt-4">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Import</h3>
+            <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="application/json,.json" className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-slate-700 hover:bg-slate-600 text-white font-bold text-sm py-2 px-4 rounded-md">
+              Choose Bundle…
+            </button>
+            {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+            {bundle && (
+              <div className="mt-3 text-sm">
+                <p className="text-slate-300">
+                  {bundle.manifest.fileCount} files exported {new Date(bundle.manifest.exportedAt).toLocaleString()}
+                  {bundle.history && `, ${bundle.history.entries.length} history entries`}
+                  {bundle.llmSettings && ', model settings'}.
+                </p>
+                <p className="mt-1 text-xs text-slate-500">
+                  Replacing switches to the bundle's files, history and settings. Merging keeps your files, lets the bundle overwrite files with the same path, and can be undone from the timeline.
+                </p>
+                <div className="mt-3 flex gap-2">
+                  <button onClick={() => handleImport('replace')} className="bg-red-700 hover:bg-red-800 text-white font-bold py-2 px-4 rounded-md">
+                    Replace Project
+                  </button>
+                  <button onClick={() => handleImport('merge')} className="bg-green-700 hover:bg-green-800 text-white font-bold py-2 px-4 rounded-md">
+                    Merge Into Project
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectMenu;
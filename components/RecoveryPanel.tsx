@@ -0,0 +1,69 @@
+import React from 'react';
+import { ProjectFiles } from '../bios/history';
+import { diffFromLastKnownGood, isBootFile } from '../bios/recovery';
+
+interface RecoveryPanelProps {
+  currentFiles: ProjectFiles;
+  lastKnownGood: ProjectFiles | null;
+  onRestore: (paths: string[]) => void;
+}
+
+// Shown on the BIOS and OS error screens. Lists every file that differs from the
+// last build that booted successfully, so the user can roll back only the boot
+// files (selected by default) and keep the rest of their work.
+const RecoveryPanel: React.FC<RecoveryPanelProps> = ({ currentFiles, lastKnownGood, onRestore }) => {
+  const changes = React.useMemo(
+    () => (lastKnownGood ? diffFromLastKnownGood(currentFiles, lastKnownGood) : {}),
+    [currentFiles, lastKnownGood]
+  );
+  const paths = Object.keys(changes).sort();
+  const [selected, setSelected] = React.useState<string[]>(() => paths.filter(isBootFile));
+
+  if (!lastKnownGood || paths.length === 0) {
+    return null;
+  }
+
+  const toggle = (path: string) => {
+    setSelected(prev => (prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]));
+  };
+
+  const describe = (path: string) => {
+    const { before, after } = changes[path];
+    if (before === null) return 'added';
+    if (after === null) return 'deleted';
+    return 'modified';
+  };
+
+  return (
+    <div className="mt-4 border-t border-red-700/50 pt-3">
+      <strong className="text-sm">Last working version available</strong>
+      <p className="mt-1 text-xs">These files differ from the last version that booted successfully. Boot files are selected by default; untick anything you want to keep.</p>
+      <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto text-xs font-mono">
+        {paths.map(path => (
+          <li key={path}>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={selected.includes(path)} onChange={() => toggle(path)} />
+              <span className={isBootFile(path) ? 'text-yellow-300' : ''}>{path}</span>
+              <span className="text-red-400/80">({describe(path)})</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={() => onRestore(selected.filter(path => paths.includes(path)))}
+          disabled={selected.length === 0}
+          className="bg-green-700 hover:bg-green-800 disabled:opacity-50 text-white font-bold py-2 px-4 rounded">
+          Restore Selected Files
+        </button>
+        <button
+          onClick={() => onRestore(paths)}
+          className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded">
+          Restore Entire Last Working Version
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryPanel;
@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface SafeModeBannerProps {
+  onRebootNormally: () => void;
+}
+
+// Rendered by the BIOS on top of the OS for as long as safe mode is active, so the
+// way back does not depend on the kernel being usable.
+const SafeModeBanner: React.FC<SafeModeBannerProps> = ({ onRebootNormally }) => (
+  <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 bg-yellow-900/90 border border-yellow-600 text-yellow-200 text-xs py-1.5 px-3 rounded-md shadow-lg">
+    <span>
+      <strong className="font-bold">Safe Mode</strong>: the factory bootloader and kernel are running. Your files are edited as usual.
+    </span>
+    <button
+      onClick={onRebootNormally}
+      className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-1 px-2 rounded">
+      Reboot Normally
+    </button>
+  </div>
+);
+
+export default SafeModeBanner;
@@ -0,0 +1,215 @@
+import React from 'react';
+import { Vault, VaultStatus, originOf } from '../bios/vault';
+import { KeyRequirement } from '../bios/providers';
+
+interface VaultPanelProps {
+  vault: Vault;
+  status: VaultStatus;
+  // The providers that need or accept a key; their ids name the secrets.
+  providers: { id: string; label: string; keyRequirement: KeyRequirement }[];
+  // Why the OS opened the screen, e.g. the error of a request that needed a key.
+  reason: string | null;
+  // For providers with a configurable endpoint: the origin the current settings use.
+  // Their keys are bound to the endpoint they are entered for.
+  endpointOrigins: Record<string, string | null>;
+  onClose: () => void;
+}
+
+// The BIOS settings screen for API keys. Only the BIOS renders it, so a key typed
+// here never passes through the OS, which can open it but not read it.
+const VaultPanel: React.FC<VaultPanelProps> = ({ vault, status, providers, reason, endpointOrigins, onClose }) => {
+  // Keys being typed, by provider id. Stored keys are never shown again.
+  const [drafts, setDrafts] = React.useState<Record<string, string>>({});
+  // The endpoints being typed for endpoint-bound keys, by provider id.
+  const [endpoints, setEndpoints] = React.useState<Record<string, string>>({});
+  const [passphrase, setPassphrase] = React.useState('');
+  const [confirmation, setConfirmation] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const keyedProviders = providers.filter(provider => provider.keyRequirement !== 'none');
+
+  const run = async (action: () => Promise<void> | void) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      await vault.unlock(passphrase);
+      setPassphrase('');
+    });
+  };
+
+  const endpointOf = (id: string) => endpoints[id] ?? endpointOrigins[id] ?? '';
+
+  const handleSaveKey = (id: string) => run(async () => {
+    let origin: string | null = null;
+    if (id in endpointOrigins) {
+      origin = originOf(endpointOf(id).trim());
+      if (!origin) {
+        throw new Error("Enter the endpoint the key is for as a URL, e.g. https://api.openai.com.");
+      }
+    }
+    await vault.setSecret(id, (drafts[id] ?? '').trim(), origin);
+    setDrafts(prev => ({ ...prev, [id]: '' }));
+  });
+
+  const handleRemoveKey = (id: string, label: string) => {
+    if (window.confirm(`Remove the stored key for ${label}?`)) {
+      run(() => vault.setSecret(id, ''));
+    }
+  };
+
+  const handleSetPassphrase = () => {
+    if (passphrase !== confirmation) {
+      setError("The passphrases do not match.");
+      return;
+    }
+    run(async () => {
+      await vault.setPassphrase(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+    });
+  };
+
+  const handleRemovePassphrase = () => {
+    if (window.confirm("Store the keys unencrypted? Any code the OS runs, and anyone with access to this browser profile, can then read them.")) {
+      run(() => vault.setPassphrase(null));
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm("Delete every stored key? Use this if the passphrase is lost; the keys have to be entered again.")) {
+      run(() => vault.reset());
+    }
+  };
+
+  const inputClass = "w-full bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-sm text-slate-200";
+  const buttonClass = "bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white font-bold text-sm py-1 px-3 rounded-md";
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-md text-slate-200">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-lg font-bold">API Keys</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-200 text-sm">Close</button>
+        </div>
+        <div className="p-4 space-y-4">
+          {reason && <p className="text-sm text-yellow-300 bg-yellow-950/40 border border-yellow-800 rounded-md p-2">{reason}</p>}
+          <p className="text-sm text-slate-400">
+            Keys are kept by the BIOS in this browser and used only for its own calls to the provider. The BIOS never hands them to the OS, and previews cannot reach them, but the OS can read unencrypted keys from storage: set a passphrase to keep them from evolved code.
+          </p>
+          {status.locked ? (
+            <form onSubmit={handleUnlock} className="space-y-2">
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider" htmlFor="vault-unlock">Passphrase</label>
+              <input id="vault-unlock" type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} autoFocus className={inputClass} />
+              <div className="flex gap-2">
+                <button type="submit" disabled={isBusy || !passphrase} className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-bold text-sm py-1 px-3 rounded-md">
+                  Unlock
+                </button>
+                <button type="button" onClick={handleReset} className="text-xs text-red-400 hover:text-red-300">
+                  Forgot the passphrase?
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <section className="space-y-3">
+                {keyedProviders.map(provider => {
+                  const isStored = status.names.includes(provider.id);
+                  const isEndpointBound = provider.id in endpointOrigins;
+                  const storedOrigin = status.origins[provider.id] ?? null;
+                  return (
+                    <div key={provider.id}>
+                      <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1" htmlFor={`vault-key-${provider.id}`}>
+                        {provider.label}
+                        <span className={`ml-2 normal-case font-normal ${isStored ? 'text-green-400' : provider.keyRequirement === 'required' ? 'text-yellow-400' : 'text-slate-500'}`}>
+                          {isStored ? 'stored' : provider.keyRequirement === 'required' ? 'missing' : 'optional'}
+                        </span>
+                      </label>
+                      <div className="flex gap-2">
+                        <input
+                          id={`vault-key-${provider.id}`}
+                          type="password"
+                          autoComplete="off"
+                          value={drafts[provider.id] ?? ''}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [provider.id]: e.target.value }))}
+                          placeholder={isStored ? 'Enter a new key to replace it' : 'Paste the key'}
+                          className={inputClass}
+                        />
+                        <button onClick={() => handleSaveKey(provider.id)} disabled={isBusy || !drafts[provider.id]?.trim()} className={buttonClass}>
+                          Save
+                        </button>
+                        {isStored && (
+                          <button onClick={() => handleRemoveKey(provider.id, provider.label)} disabled={isBusy} className="text-xs text-red-400 hover:text-red-300">
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                      {isEndpointBound && (
+                        <>
+                          <input
+                            aria-label={`Endpoint for the ${provider.label} key`}
+                            value={endpointOf(provider.id)}
+                            onChange={(e) => setEndpoints(prev => ({ ...prev, [provider.id]: e.target.value }))}
+                            placeholder="The endpoint the key is for"
+                            className={`${inputClass} mt-1`}
+                          />
+                          {isStored && (
+                            <p className={`mt-1 text-xs ${storedOrigin && storedOrigin === endpointOrigins[provider.id] ? 'text-slate-500' : 'text-yellow-400'}`}>
+                              {!storedOrigin
+                                ? "The stored key is not bound to an endpoint, so it is not sent anywhere. Enter it again for its endpoint."
+                                : storedOrigin === endpointOrigins[provider.id]
+                                  ? `Sent only to ${storedOrigin}.`
+                                  : `Stored for ${storedOrigin}, so it is not sent to the endpoint in the settings (${endpointOrigins[provider.id] ?? 'not a valid URL'}).`}
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </section>
+              <section className="border-t border-slate-700 pt-4 space-y-2">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Encryption</h3>
+                <p className="text-sm text-slate-400">
+                  {status.encrypted
+                    ? "The keys are encrypted with a passphrase, which is asked for once per session."
+                    : "The keys are stored unencrypted, so any code the OS runs can read them. A passphrase encrypts them; it is asked for once per session."}
+                </p>
+                <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={status.encrypted ? 'New passphrase' : 'Passphrase'} className={inputClass} />
+                <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repeat the passphrase" className={inputClass} />
+                <div className="flex gap-2">
+                  <button onClick={handleSetPassphrase} disabled={isBusy || !passphrase} className={buttonClass}>
+                    {status.encrypted ? 'Change Passphrase' : 'Encrypt'}
+                  </button>
+                  {status.encrypted && (
+                    <>
+                      <button onClick={() => vault.lock()} disabled={isBusy} className={buttonClass}>Lock Now</button>
+                      <button onClick={handleRemovePassphrase} disabled={isBusy} className="text-xs text-red-400 hover:text-red-300">
+                        Remove Passphrase
+                      </button>
+                    </>
+                  )}
+                </div>
+              </section>
+            </>
+          )}
+          {isBusy && <p className="text-sm text-slate-400">Working...</p>}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultPanel;
@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { getDevConsole } from './bios/devConsole';
+
+// Capture console output from the start, so the kernel's console panel also shows the BIOS boot.
+getDevConsole();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -1,43 +1,203 @@
 export const INITIAL_PROJECT: Record<string, string> = {
   '/boot/bootloader.tsx': `
-import { GoogleGenAI, Type } from "@google/genai";
+import { createModuleLoader, precompile } from './lib/loader';
+import { createHotRegistry } from './lib/hot';
+import { validateEvolution } from './lib/validate';
+import { readPartialEvolution } from './lib/progress';
+import { locateError, codeFrame } from './lib/sourceMap';
+import { buildEvolutionContext, describeRelation } from './lib/context';
+import { applyEdits } from './lib/patch';
+import { DEFAULT_AGENT_MAX_STEPS, agentStepGoal, planAgentRun, runtimeErrorsSince } from './lib/agent';
+import { runTests, testFilesOf, testRegressions } from './lib/testing';
 
 // AI Service logic is now merged directly into the bootloader
 // to solve a bootstrapping dependency issue with the static BIOS.
+// Model calls go through the 'llm' object provided by the BIOS, which routes
+// them to the provider, model and temperature chosen in the project settings.
 
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  // In a real app, you might want a more graceful fallback.
-  // Here we throw an error to be caught by the BIOS.
-  throw new Error("API_KEY environment variable not set. This is a fatal error for the OS.");
+export interface EvolutionEdit {
+  search: string; // copied from the current file
+  replace: string;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+export interface EvolutionAction {
+  action: 'PATCH' | 'UPDATE' | 'CREATE' | 'DELETE' | 'RENAME';
+  filePath: string;
+  newFilePath?: string; // only for RENAME
+  code?: string; // only for UPDATE and CREATE
+  edits?: EvolutionEdit[]; // only for PATCH
+}
 
 export interface Evolution {
-  action: 'UPDATE' | 'CREATE' | 'DELETE';
-  filePath: string;
-  code: string;
+  thought: string;
+  summary: string;
+  actions: EvolutionAction[];
 }
 
-const responseSchema = {
-    type: Type.OBJECT,
+const editSchema = {
+    type: 'object',
     properties: {
-        action: { type: Type.STRING, enum: ['UPDATE', 'CREATE', 'DELETE'] },
-        filePath: { type: Type.STRING },
-        code: { type: Type.STRING }
+        search: { type: 'string', description: "Lines copied exactly from the current file, with enough unchanged lines around the change to match one place." },
+        replace: { type: 'string', description: "What the searched lines become." }
     },
-    required: ['action', 'filePath'] // code is not required for DELETE
+    propertyOrdering: ['search', 'replace'],
+    required: ['search', 'replace']
+};
+
+// editFormat 'full' (see the LLM settings) leaves out PATCH, so every change is a complete file.
+const responseSchemaFor = (editFormat) => {
+    const patch = editFormat !== 'full';
+    return {
+        type: 'object',
+        properties: {
+            thought: { type: 'string', description: "A brief step-by-step plan of what you will do." },
+            summary: { type: 'string', description: "A concise summary of the change, shown to the user for review." },
+            actions: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        action: { type: 'string', enum: patch ? ['PATCH', 'UPDATE', 'CREATE', 'DELETE', 'RENAME'] : ['UPDATE', 'CREATE', 'DELETE', 'RENAME'] },
+                        filePath: { type: 'string' },
+                        newFilePath: { type: 'string' },
+                        code: { type: 'string' },
+                        ...(patch ? { edits: { type: 'array', items: editSchema } } : {})
+                    },
+                    propertyOrdering: patch ? ['action', 'filePath', 'newFilePath', 'edits', 'code'] : ['action', 'filePath', 'newFilePath', 'code'],
+                    required: ['action', 'filePath'] // code, edits and newFilePath depend on the action
+                }
+            }
+        },
+        propertyOrdering: ['thought', 'summary', 'actions'],
+        required: ['thought', 'summary', 'actions']
+    };
+};
+
+/**
+ * Applies an evolution's actions, in order, to a copy of the project files.
+ * The evolution is a transaction: if any action is invalid this throws and
+ * the caller's files are left untouched. A PATCH action is invalid if any of its
+ * edits does not match; the error says which ones and why.
+ * @param onEdits Called with the index of every PATCH action and how its edits matched (see applyEdits).
+ * @returns The complete file set after every action has been applied.
+ */
+export const applyEvolution = (projectFiles, evolution, { onEdits = null } = {}) => {
+  if (!evolution || !Array.isArray(evolution.actions) || evolution.actions.length === 0) {
+    throw new Error("The evolution did not contain any actions.");
+  }
+  const files = { ...projectFiles };
+  evolution.actions.forEach((step, index) => {
+    const where = \`Action \${index + 1} (\${step.action} \${step.filePath})\`;
+    const exists = (path) => files.hasOwnProperty(path);
+    if (typeof step.filePath !== 'string' || !step.filePath.startsWith('/')) {
+      throw new Error(\`\${where}: file paths must start with '/'.\`);
+    }
+    switch (step.action) {
+      case 'CREATE':
+        if (exists(step.filePath)) throw new Error(\`\${where}: the file already exists.\`);
+        if (typeof step.code !== 'string') throw new Error(\`\${where}: missing code.\`);
+        files[step.filePath] = step.code;
+        break;
+      case 'UPDATE':
+        if (!exists(step.filePath)) throw new Error(\`\${where}: the file does not exist.\`);
+        if (typeof step.code !== 'string') throw new Error(\`\${where}: missing code.\`);
+        files[step.filePath] = step.code;
+        break;
+      case 'PATCH': {
+        if (!exists(step.filePath)) throw new Error(\`\${where}: the file does not exist.\`);
+        if (!Array.isArray(step.edits) || step.edits.length === 0) throw new Error(\`\${where}: missing edits.\`);
+        const { code, results } = applyEdits(files[step.filePath], step.edits);
+        if (code === null) {
+          const failures = results
+            .map((result, i) => result.problem && \`edit \${i + 1} of \${results.length}: \${result.problem}\`)
+            .filter(Boolean);
+          throw new Error(\`\${where}: \${failures.join(' ')}\`);
+        }
+        if (onEdits) onEdits(index, results);
+        files[step.filePath] = code;
+        break;
+      }
+      case 'DELETE':
+        if (!exists(step.filePath)) throw new Error(\`\${where}: the file does not exist.\`);
+        delete files[step.filePath];
+        break;
+      case 'RENAME':
+        if (!exists(step.filePath)) throw new Error(\`\${where}: the file does not exist.\`);
+        if (typeof step.newFilePath !== 'string' || !step.newFilePath.startsWith('/')) {
+          throw new Error(\`\${where}: newFilePath must start with '/'.\`);
+        }
+        if (exists(step.newFilePath)) throw new Error(\`\${where}: \${step.newFilePath} already exists.\`);
+        files[step.newFilePath] = files[step.filePath];
+        delete files[step.filePath];
+        break;
+      default:
+        // This case should ideally not be reached if the AI respects the schema
+        throw new Error(\`\${where}: unknown action.\`);
+    }
+  });
+  return files;
+};
+
+/** Per path that differs between two file sets: { before, after }, null where the file does not exist. */
+const changedFiles = (beforeFiles, afterFiles) => {
+  const changes = {};
+  for (const path of new Set([...Object.keys(beforeFiles), ...Object.keys(afterFiles)])) {
+    const before = beforeFiles.hasOwnProperty(path) ? beforeFiles[path] : null;
+    const after = afterFiles.hasOwnProperty(path) ? afterFiles[path] : null;
+    if (before !== after) changes[path] = { before, after };
+  }
+  return changes;
 };
 
+const sameFiles = (a, b) => a === b || Object.keys(changedFiles(a, b)).length === 0;
+
+// How many times a proposal that fails validation is sent back to the model before giving up.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Only the latest messages of a long chat thread go into the prompt.
+const MAX_CONVERSATION_MESSAGES = 12;
+
 export const evolveCode = async (
     targetFilePath, 
     goal, 
-    projectFiles
+    projectFiles,
+    // context: from buildEvolutionContext; built with the default budget if omitted.
+    // conversation: the earlier messages of the chat thread the goal continues, oldest first.
+    // editFormat: 'patch' lets the model send search/replace edits, 'full' only complete files.
+    // repair: { evolution, problems } from a previous attempt that failed validation.
+    // The remaining options (signal, onText, onRetry) are passed on to the model request.
+    { llm, context = buildEvolutionContext(projectFiles, targetFilePath), conversation = [], editFormat = 'patch', repair = null, ...requestOptions }
 ) => {
   const fileTree = Object.keys(projectFiles).join('\\n');
   const currentCode = projectFiles[targetFilePath] || '';
+  const relatedFiles = context.files.filter(file => file.relation !== 'target');
+  const relatedSection = relatedFiles.length > 0 ? \`
+    RELATED FILES (what '\${targetFilePath}' imports and what imports it; keep their props and exports consistent):
+    \${relatedFiles.map(file => \`--- \${file.path} (\${describeRelation(file)}) ---\\n\${projectFiles[file.path]}\`).join('\\n')}
+    ---
+  \` : '';
+  const earlierMessages = conversation.slice(-MAX_CONVERSATION_MESSAGES);
+  const conversationSection = earlierMessages.length > 0 ? \`
+    CONVERSATION SO FAR (earlier goals of this session and what became of your proposals; the GOAL may refer to them):
+    \${earlierMessages.map(message => message.role === 'user'
+      ? \`USER (about '\${message.targetFilePath}'): \${message.text}\`
+      : \`YOU: \${message.text} [\${message.status}]\${message.diff ? \`\\n\${message.diff}\` : ''}\`).join('\\n')}
+    ---
+  \` : '';
+  const repairSection = repair ? \`
+    YOUR PREVIOUS RESPONSE FAILED VALIDATION AND WAS NOT APPLIED.
+    Return a complete, corrected response that fixes these problems:
+    \${repair.problems.join('\\n')}
+    ---
+    YOUR PREVIOUS RESPONSE:
+    \${JSON.stringify(repair.evolution)}
+    ---
+  \` : '';
+  const editInstructions = editFormat === 'full'
+    ? \`3.  For UPDATE or CREATE, the 'code' property must be the complete, raw source code for the file. UPDATE only existing files; CREATE only new ones.\`
+    : \`3.  To change an existing file, prefer PATCH with a list of 'edits' and omit 'code'. Each edit replaces its 'search' text with its 'replace' text, in order.
+        'search' must be copied exactly from the current code, with a few unchanged lines around the change so that it matches exactly one place in the file.
+        Use UPDATE, with the complete, raw source code of the file in 'code', only to rewrite most of a file. For CREATE, 'code' is the complete source of the new file.\`;
   const prompt = \`
     You are an expert AI developer architecting a self-evolving React application.
     Your task is to achieve the user's GOAL by intelligently modifying the project's file system.
@@ -47,177 +207,741 @@ export const evolveCode = async (
     - /boot/bootloader.tsx: The dynamic "Operating System". It transpiles and runs the kernel. IT ALSO CONTAINS YOUR OWN SOURCE CODE (this evolveCode function). Modifying this is powerful but risky.
     - /boot/kernel.tsx: The main "IDE" application UI. This is the primary user-facing part of the app.
 
-    You have three actions available: UPDATE, CREATE, or DELETE a single file.
+    You respond with an ordered list of actions. Each action can \${editFormat === 'full' ? '' : 'PATCH, '}UPDATE, CREATE, DELETE or RENAME one file.
+    The actions are applied in order as a single transaction: if any of them is invalid, none of them is applied.
 
     CRITICAL INSTRUCTIONS:
     1.  Your response MUST be a single, valid JSON object matching the required schema. DO NOT include markdown.
-    2.  Analyze the user's GOAL and the PROJECT FILE TREE to decide the best action.
-    3.  For UPDATE or CREATE, the 'code' property must be the complete, raw source code for the file.
-    4.  For DELETE, you can omit the 'code' property.
+    2.  Analyze the user's GOAL, the PROJECT FILE TREE and the RELATED FILES to decide the best actions. Use as many as the goal needs (e.g. CREATE a component and UPDATE the file that imports it).
+    \${editInstructions}
+    4.  For DELETE, you can omit the 'code' property. For RENAME, set 'newFilePath' and omit 'code'; update any imports of the old path in the same response.
     5.  You can operate on any file to achieve the goal, not just the currently active one.
     6.  Use 'React' for hooks (e.g., \\\\\`React.useState\\\\\`). Do not add \\\\\`import React from 'react'\\\\\`. The 'React' global is provided.
     7.  Ensure all file paths start with '/'.
+    8.  Explain your plan in 'thought' and describe the change for the user in 'summary'. The user reviews a diff of your change before it is applied.
+    9.  Files under /tests named *.test.tsx are the project's tests. They import { describe, it, expect, render } from '@test' and the code they test by relative path.
+        render(element) returns { container, getByText, queryByText, click, rerender, unmount }. Keep the tests passing; change one only when the goal changes the behaviour it tests.
 
     PROJECT FILE TREE:
     ---
     \${fileTree}
     ---
+    \${conversationSection}
     USER'S GOAL (in context of '\${targetFilePath}'): \${goal}
     ---
     CURRENT CODE OF '\${targetFilePath}':
     ---
     \${currentCode}
     ---
+    \${relatedSection}
+    \${repairSection}
   \`;
 
-  const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        temperature: 0.1,
-        topP: 0.9,
-        responseMimeType: 'application/json',
-        responseSchema: responseSchema,
-      }
-  });
+  const jsonText = await llm.generateJson({ prompt, schema: responseSchemaFor(editFormat) }, requestOptions);
+  return JSON.parse(jsonText);
+};
 
-  const jsonText = response.text;
-  if (!jsonText) throw new Error("Received an empty response from the AI.");
-  
-  const evolution = JSON.parse(jsonText);
-  if (evolution.action === 'DELETE') evolution.code = '';
-  return evolution;
+
+// How long the kernel has to stay up before the BIOS records this build as known good.
+const BOOT_SUCCESS_DELAY_MS = 1000;
+
+// Rebuilds wait until the files have stopped changing for this long, e.g. while typing.
+const REBUILD_DEBOUNCE_MS = 300;
+
+const bootCodeChanged = (previous, next) => {
+  if (!previous) return false;
+  const paths = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return [...paths].some(path => path.startsWith('/boot/') && previous[path] !== next[path]);
+};
+
+// An agent step that has not been built after this long is checked without a build.
+const AGENT_BUILD_TIMEOUT_MS = 10000;
+// How long the kernel runs after an agent step before its errors are collected.
+const AGENT_SETTLE_MS = 1000;
+
+const AGENT_STATE_LABELS = {
+  planning: 'planning',
+  running: 'running',
+  succeeded: 'done',
+  failed: 'failed',
+  stopped: 'stopped',
+  limit: 'step limit reached',
+};
+
+const AGENT_RESULT_STYLES = {
+  running: 'text-blue-300',
+  ok: 'text-green-400',
+  errors: 'text-yellow-400',
+  rejected: 'text-red-400',
 };
 
+// Shown over the kernel while an evolution is generated and validated.
+// Lists the files sent to the model as context, then streams the model's reasoning
+// and file list as they arrive; Cancel aborts the request.
+function EvolutionProgress({ status, context, progress, onCancel }) {
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center z-50 animate-fade-in p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-2xl p-4 flex flex-col max-h-full">
+        <div className="flex items-center gap-3">
+          <div className="animate-spin h-6 w-6 text-white flex-shrink-0" dangerouslySetInnerHTML={{__html: \`<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle class="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" stroke-width="4"></circle><path class="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>\`}} />
+          <p className="flex-grow text-slate-300">{status}</p>
+          {onCancel && (
+            <button onClick={onCancel} className="px-3 py-1 rounded-md text-sm text-slate-200 bg-slate-700 hover:bg-slate-600">
+              Cancel
+            </button>
+          )}
+        </div>
+        {context && (
+          <details className="mt-3 text-xs text-slate-400">
+            <summary className="cursor-pointer">
+              Context: {context.files.length} file{context.files.length === 1 ? '' : 's'}, about {context.tokens} of {context.budget} tokens
+              {context.omitted.length > 0 && \`, \${context.omitted.length} related file\${context.omitted.length === 1 ? '' : 's'} left out\`}
+            </summary>
+            <ul className="mt-1 font-mono">
+              {context.files.map(file => <li key={file.path}>{file.path} <span className="text-slate-500">({describeRelation(file)})</span></li>)}
+              {context.omitted.map(file => <li key={file.path} className="text-slate-600 line-through" title="Over the context budget">{file.path}</li>)}
+            </ul>
+          </details>
+        )}
+        {progress && (
+          <div className="mt-3 overflow-y-auto text-sm">
+            {progress.thought && <p className="text-slate-400 whitespace-pre-wrap">{progress.thought}</p>}
+            {progress.files.length > 0 && (
+              <ul className="mt-2 font-mono text-xs text-slate-300">
+                {progress.files.map((file, i) => (
+                  <li key={i}><span className="text-purple-300">{file.action}</span> {file.filePath}</li>
+                ))}
+              </ul>
+            )}
+            <p className="mt-2 text-xs text-slate-500">{progress.receivedChars} characters received</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// The log of an agent run, shown beside the kernel so that the user can watch it
+// and keep working. While the run is active it shows what the model is doing and
+// a Stop button; afterwards every applied step can be reverted.
+function AgentPanel({ run, status, progress, onStop, onRevert, onClose }) {
+  const active = run.state === 'planning' || run.state === 'running';
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-full max-w-md max-h-[70vh] flex flex-col bg-slate-900/95 border border-purple-700 rounded-lg shadow-lg text-sm">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-700">
+        {active && <div className="w-4 h-4 border-2 border-purple-300 border-t-transparent rounded-full animate-spin flex-shrink-0"></div>}
+        <strong className="flex-grow text-slate-200">Agent: {AGENT_STATE_LABELS[run.state]}</strong>
+        <span className="text-xs text-slate-500">{run.steps.length} of {run.maxSteps} steps</span>
+        {active ? (
+          <button onClick={onStop} className="px-2 py-1 rounded text-xs text-white bg-red-700 hover:bg-red-600">Stop</button>
+        ) : (
+          <button onClick={onClose} className="px-2 py-1 rounded text-xs text-slate-300 hover:bg-slate-700">Close</button>
+        )}
+      </div>
+      <div className="overflow-y-auto p-3 space-y-3">
+        <p className="text-slate-400"><span className="text-slate-500">Goal:</span> {run.goal}</p>
+        {run.plan && (
+          <ol className="list-decimal list-inside text-slate-300">
+            {run.plan.steps.map((step, i) => <li key={i} title={step.detail}>{step.title}</li>)}
+          </ol>
+        )}
+        {run.steps.length > 0 && (
+          <ul className="space-y-2">
+            {run.steps.map(step => (
+              <li key={step.number} className="border-t border-slate-800 pt-2">
+                <div className="flex items-start gap-2">
+                  <span className="flex-grow text-slate-200">Step {step.number}: {step.title}</span>
+                  <span className={\`text-xs \${AGENT_RESULT_STYLES[step.result]}\`}>{step.result}</span>
+                  {!active && step.historyEntryId && (
+                    <button onClick={() => onRevert(step)} title="Go back to the files before this step; later steps are undone too" className="text-xs text-purple-300 hover:text-purple-200">
+                      Revert
+                    </button>
+                  )}
+                </div>
+                {step.summary && <p className="mt-1 text-xs text-slate-400">{step.summary}</p>}
+                {step.problems.length > 0 && (
+                  <pre className="mt-1 max-h-24 overflow-y-auto text-xs font-mono text-red-300 whitespace-pre-wrap">{step.problems.join('\\n')}</pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {active ? (
+          <p className="text-xs text-slate-500">{status}{progress ? \` (\${progress.receivedChars} characters received)\` : ''}</p>
+        ) : (
+          run.message && <p className={\`text-xs \${run.state === 'succeeded' ? 'text-green-400' : 'text-yellow-400'}\`}>{run.message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Shows where a failed build went wrong: the file and line the error maps back to
+// and the code around it. onOpenLocation, when set, opens that location in the
+// editor; it is only passed while a kernel is running to show it in.
+function ErrorOverlay({ error, files, onOpenLocation, onDismiss }) {
+  const { location } = error;
+  const source = location && files[location.path];
+  // Babel's messages carry their own code frame after the first line.
+  const summary = error.message.split('\\n')[0];
+  const label = location && \`\${location.path}:\${location.line}:\${location.column + 1}\`;
+  return (
+    <div className="text-left text-red-300">
+      <p className="font-mono text-sm whitespace-pre-wrap">{summary}</p>
+      {location && (onOpenLocation ? (
+        <button
+          onClick={() => onOpenLocation(location)}
+          title="Open in the editor"
+          className="mt-2 font-mono text-xs text-blue-300 hover:text-blue-200 underline">
+          {label}
+        </button>
+      ) : (
+        <p className="mt-2 font-mono text-xs text-slate-400">{label}</p>
+      ))}
+      {typeof source === 'string' && (
+        <pre className="text-xs mt-2 font-mono bg-red-950/50 p-2 rounded overflow-x-auto">{codeFrame(source, location.line, location.column)}</pre>
+      )}
+      {onDismiss && (
+        <button onClick={onDismiss} className="mt-2 px-3 py-1 rounded-md text-xs text-slate-200 bg-slate-700 hover:bg-slate-600">
+          Dismiss
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Wraps the kernel. A hot update can leave a mounted component unable to render
+// with the state it had; canRecover is set after such an update, and the error
+// is handed to onError so the bootloader can reboot the kernel from scratch.
+// Any other error goes on to the BIOS error screen.
+class HotUpdateBoundary extends React.Component {
+  constructor(props) {
+    super(props);
+    this.state = { error: null };
+  }
+
+  static getDerivedStateFromError(error) {
+    return { error };
+  }
+
+  componentDidCatch(error) {
+    if (this.props.canRecover) this.props.onError(error);
+  }
+
+  render() {
+    if (this.state.error) {
+      if (!this.props.canRecover) throw this.state.error;
+      return null;
+    }
+    return this.props.children;
+  }
+}
 
 // This is the dynamic "Operating System" of the application.
 // It is loaded by the static BIOS (App.tsx).
 // Its job is to manage the project state, compile and run the Kernel,
 // and handle the evolution process.
-function Bootloader({ initialFiles, onSaveFiles, onFactoryReset }) {
+
+function Bootloader({
+  initialFiles, onSaveFiles, onFactoryReset,
+  history, onUndo, onRedo, onHistoryCheckout,
+  onBootSuccess, recoveryPanel,
+  kernelFiles, onSafeMode,
+  llm, llmSettings, llmProviders, onLlmSettingsChange, onOpenKeySettings,
+  llmCassette, onLlmCassetteChange, chatSessions, onChatSessionsChange,
+  storageStatus, compiler, devConsole, preview, checkBootFiles,
+}) {
   const [projectFiles, setProjectFiles] = React.useState(initialFiles);
   const [KernelComponent, setKernelComponent] = React.useState(null);
   const [isEvolving, setIsEvolving] = React.useState(false);
+  const [evolutionStatus, setEvolutionStatus] = React.useState('');
+  // What has streamed in so far of the current model response.
+  const [evolutionProgress, setEvolutionProgress] = React.useState(null);
+  // The files the current evolution shows the model (see lib/context).
+  const [evolutionContext, setEvolutionContext] = React.useState(null);
+  const evolutionAbortRef = React.useRef(null);
   const [bootError, setBootError] = React.useState(null);
+  // { message, location } of the last failed build, for the error overlay.
+  const [buildError, setBuildError] = React.useState(null);
+  // Where the kernel's editor should go next; a new object for every request.
+  const [editorLocation, setEditorLocation] = React.useState(null);
+  // An evolution proposal waiting for the user's review in the kernel.
+  const [pendingEvolution, setPendingEvolution] = React.useState(null);
+  // The last run of the project's tests, for the kernel's test panel.
+  const [testReport, setTestReport] = React.useState(null);
+  const [isTesting, setIsTesting] = React.useState(false);
+  // The current or last agent run: { goal, state, plan, steps, maxSteps, message }; null once closed.
+  const [agentRun, setAgentRun] = React.useState(null);
+  // The agent reads the history while it runs, after the props it started with are stale.
+  const historyRef = React.useRef(history);
+  historyRef.current = history;
   
+  // Label for the next save, shown in the history timeline. Null means a manual edit.
+  const changeLabelRef = React.useRef(null);
+  const savedFilesRef = React.useRef(initialFiles);
+
   // Persist project files whenever they change
   React.useEffect(() => {
-    onSaveFiles(projectFiles);
+    savedFilesRef.current = projectFiles;
+    onSaveFiles(projectFiles, changeLabelRef.current || undefined);
+    changeLabelRef.current = null;
   }, [projectFiles, onSaveFiles]);
 
-  const runProject = React.useCallback(() => {
-    console.log("OS: Booting kernel...");
-    setBootError(null);
-
-    // This timeout allows the UI to update before the potentially blocking transpile/exec work
-    setTimeout(() => {
-        const moduleCache = {};
-
-        const customRequire = (importerPath, importPath) => {
-            // Simple external module support
-            if (importPath === 'react') return React;
-
-            const pathParts = importerPath.split('/');
-            pathParts.pop();
-            const base = \`file://\${pathParts.join('/')}/\`;
-            // Resolve relative paths like ../components/Editor
-            const baseResolvedPath = new URL(importPath, base).pathname;
-
-            let finalResolvedPath = null;
-            // Try to resolve extensions .tsx, .ts, or index files
-            const possiblePaths = [
-                baseResolvedPath,
-                \`\${baseResolvedPath}.tsx\`,
-                \`\${baseResolvedPath}.ts\`,
-                \`\${baseResolvedPath}/index.tsx\`,
-                \`\${baseResolvedPath}/index.ts\`
-            ];
-
-            for (const p of possiblePaths) {
-                if (projectFiles.hasOwnProperty(p)) {
-                    finalResolvedPath = p;
-                    break;
-                }
-            }
+  // Follow the BIOS when it replaces the files itself, e.g. after an undo or a history checkout.
+  React.useEffect(() => {
+    if (initialFiles !== savedFilesRef.current) {
+      savedFilesRef.current = initialFiles;
+      setProjectFiles(initialFiles);
+    }
+  }, [initialFiles]);
 
-            if (!finalResolvedPath) {
-                throw new Error(\`Module not found: Can't import '\${importPath}' from '\${importerPath}' (resolved to '\${baseResolvedPath}')\`);
-            }
+  // The BIOS passes the files the kernel runs from as kernelFiles: the project files
+  // under the active boot slot, or the factory files in safe mode. The editor
+  // always works on projectFiles.
+  const bootFiles = kernelFiles || projectFiles;
+  // Boot files edited in the project but not running: they only boot once the BIOS
+  // has tested and promoted them (see its boot candidate panel).
+  const pendingBootPaths = React.useMemo(() => {
+    if (!kernelFiles) return [];
+    const paths = new Set([...Object.keys(projectFiles), ...Object.keys(kernelFiles)]);
+    return [...paths].filter(path => path.startsWith('/boot/') && projectFiles[path] !== kernelFiles[path]).sort();
+  }, [projectFiles, kernelFiles]);
 
-            if (moduleCache[finalResolvedPath]) {
-                return moduleCache[finalResolvedPath].exports;
-            }
+  // The require function of the last successful build. Its modules are reused by
+  // the next build wherever their source and dependencies did not change. Cleared
+  // when a boot from scratch fails, since no kernel is mounted to be updated then.
+  const moduleLoaderRef = React.useRef(null);
+  // Proxies for the exported components of the running kernel (see ./lib/hot).
+  const hotRegistryRef = React.useRef(null);
+  // Whether the running kernel has been hot-updated since it was last booted from scratch.
+  const hotUpdatedRef = React.useRef(false);
+  // The files of the last successful build.
+  const builtFilesRef = React.useRef(null);
+  // Incremented by every boot from scratch, so the kernel and its boundary remount.
+  const [kernelGeneration, setKernelGeneration] = React.useState(0);
+  // Incremented by every hot update; re-rendering makes the proxies render the new code.
+  const [, setHotUpdateCount] = React.useState(0);
 
-            const fileContent = projectFiles[finalResolvedPath];
-            const transformedCode = Babel.transform(fileContent, {
-                filename: finalResolvedPath, // Required for TS preset
-                presets: ['react', 'typescript'],
-                plugins: [['transform-modules-commonjs', { "strictMode": false }]]
-            }).code;
-
-            const module = { exports: {} };
-            moduleCache[finalResolvedPath] = module;
-            const factory = new Function('React', 'require', 'module', 'exports', transformedCode);
-            // Each module gets its own require function scoped to its path
-            const scopedRequire = (p) => customRequire(finalResolvedPath, p);
-
-            factory(React, scopedRequire, module, module.exports);
-            return module.exports;
-        };
+  // Incremented by every build. A build still compiling when a newer one starts is dropped.
+  const buildIdRef = React.useRef(0);
+  // Called when the next build has finished (see waitForBuild).
+  const buildWaitersRef = React.useRef([]);
+  const settleBuildWaiters = (error) => {
+    const waiters = buildWaitersRef.current;
+    buildWaitersRef.current = [];
+    waiters.forEach(waiter => waiter(error));
+  };
 
-        try {
-            // The initial require starts from the root
-            const MainKernelComponent = customRequire('/boot/kernel.tsx', '/boot/kernel.tsx').default;
-            if (typeof MainKernelComponent !== 'function') {
-                throw new Error("Kernel entry point ('/boot/kernel.tsx') did not export a default component.");
-            }
+  const runProject = React.useCallback(async (fromScratch) => {
+    const buildId = ++buildIdRef.current;
+    // Boot code is never hot-swapped: a changed /boot file (e.g. after a promotion, or
+    // under a BIOS without boot slots) always boots the kernel from scratch.
+    const hot = !fromScratch && !!moduleLoaderRef.current && !bootCodeChanged(builtFilesRef.current, bootFiles);
+    console.log(hot ? "OS: Updating kernel..." : "OS: Booting kernel...");
+    setBootError(null);
+    try {
+        // Babel runs in the BIOS compile worker; evaluating the modules below only reads its output.
+        await precompile(bootFiles, compiler, ['/boot/kernel.tsx']);
+        if (buildId !== buildIdRef.current) return;
+        setBuildError(null);
+        const registry = hot ? hotRegistryRef.current : createHotRegistry();
+        const previousModules = hot ? moduleLoaderRef.current.modules : null;
+        const previousKernel = previousModules?.['/boot/kernel.tsx']?.exports.default;
+        // Only modules whose source or dependencies changed are evaluated again.
+        const requireModule = createModuleLoader(bootFiles, { react: React }, previousModules, registry);
+        const MainKernelComponent = requireModule('/boot/kernel.tsx').default;
+        if (typeof MainKernelComponent !== 'function') {
+            throw new Error("Kernel entry point ('/boot/kernel.tsx') did not export a default component.");
+        }
+        moduleLoaderRef.current = requireModule;
+        hotRegistryRef.current = registry;
+        builtFilesRef.current = bootFiles;
+        if (hot && MainKernelComponent === previousKernel) {
+            // The kernel proxy is still mounted and now renders the new code.
+            hotUpdatedRef.current = true;
+            setHotUpdateCount(count => count + 1);
+        } else {
+            // Not hot-swappable, e.g. because the kernel's hooks changed: boot it from scratch.
+            hotUpdatedRef.current = false;
             setKernelComponent(() => MainKernelComponent);
-        } catch (e) {
-            console.error("OS Boot Error:", e);
-            setBootError(e.message);
-            setKernelComponent(null);
+            setKernelGeneration(generation => generation + 1);
         }
-    }, 50);
-  }, [projectFiles]);
-
+        settleBuildWaiters(null);
+    } catch (e) {
+        if (buildId !== buildIdRef.current) return;
+        console.error("OS Boot Error:", e);
+        setBuildError({ message: e.message, location: locateError(e, bootFiles) });
+        settleBuildWaiters(e.message);
+        if (hot) {
+            // The previous build keeps running, so the error can be fixed in its editor.
+            return;
+        }
+        moduleLoaderRef.current = null;
+        setBootError(e.message);
+        setKernelComponent(null);
+    }
+  }, [bootFiles, compiler]);
 
   React.useEffect(() => {
-    runProject();
+    // The first boot only waits long enough for the UI to update before the
+    // kernel is evaluated; rebuilds wait for a pause in the changes.
+    const timer = setTimeout(() => runProject(false), moduleLoaderRef.current ? REBUILD_DEBOUNCE_MS : 50);
+    return () => clearTimeout(timer);
+  }, [runProject]);
+
+  const handleHotUpdateError = React.useCallback((error) => {
+    console.warn("OS: Hot update failed, rebooting the kernel.", error);
+    runProject(true);
   }, [runProject]);
 
-  const handleEvolveRequest = async (filePath, goal) => {
+  // Report a successful boot so the BIOS can offer this build as a rollback target later.
+  React.useEffect(() => {
+    if (!KernelComponent || !onBootSuccess) return;
+    const timer = setTimeout(onBootSuccess, BOOT_SUCCESS_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [KernelComponent, onBootSuccess]);
+
+  // Props for the isolated test boot during validation; callbacks do nothing there.
+  const noop = () => {};
+  const testKernelProps = {
+    onFileChange: noop,
+    onEvolveRequest: noop,
+    onAgentRequest: noop,
+    onRunTests: noop,
+    onProjectReset: noop,
+    history,
+    onUndo: noop,
+    onRedo: noop,
+    onHistoryCheckout: noop,
+    pendingEvolution: null,
+    onApplyEvolution: noop,
+    onDiscardEvolution: noop,
+  };
+
+  // Asks the model for an evolution of \`files\` and validates it against a copy of
+  // them, sending failures back to the model for repair. With the test gate on (see
+  // the LLM settings), tests that pass on \`files\` have to pass on the proposal too.
+  // Nothing is applied. onStatus reports the phase, e.g. 'Validating...'.
+  // Resolves with { evolution, changes, edits, repairAttempts, testsChecked }; \`edits\`
+  // says, per PATCH action by index, how its edits matched.
+  const proposeEvolution = async (filePath, goal, files, requestOptions, onStatus) => {
+    const gateTests = !!llmSettings && !!llmSettings.testGate && testFilesOf(files).length > 0;
+    let baselineTests = null;
+    let evolution = await evolveCode(filePath, goal, files, requestOptions);
+    let proposedFiles;
+    let edits;
+    let attempt = 0;
+    for (; ; attempt++) {
+      onStatus('Validating...');
+      let problems;
+      edits = {};
+      try {
+        proposedFiles = applyEvolution(files, evolution, { onEdits: (index, results) => { edits[index] = results; } });
+        problems = await validateEvolution(files, proposedFiles, testKernelProps, compiler);
+        if (problems.length === 0 && gateTests) {
+          onStatus('Running tests...');
+          baselineTests = baselineTests || await runTests(files, compiler);
+          problems = testRegressions(baselineTests, await runTests(proposedFiles, compiler));
+        }
+      } catch (e) {
+        problems = [e.message];
+      }
+      if (problems.length === 0) break;
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error(\`The proposal still fails validation after \${MAX_REPAIR_ATTEMPTS} repair attempts:\\n\${problems.join('\\n')}\\n\`);
+      }
+      console.warn("OS: Evolution failed validation, asking the model to repair it:", problems);
+      onStatus(\`Repairing (attempt \${attempt + 1} of \${MAX_REPAIR_ATTEMPTS})...\`);
+      setEvolutionProgress(null);
+      evolution = await evolveCode(filePath, goal, files, { ...requestOptions, repair: { evolution, problems } });
+    }
+    const changes = changedFiles(files, proposedFiles);
+    if (Object.keys(changes).length === 0) {
+      throw new Error("The proposed actions do not change any file.");
+    }
+    return { evolution, changes, edits, repairAttempts: attempt, testsChecked: gateTests };
+  };
+
+  // Options for every model request of an evolution or agent run.
+  const evolutionRequestOptions = (controller, conversation) => ({
+    llm,
+    conversation,
+    editFormat: llmSettings ? llmSettings.editFormat : undefined,
+    signal: controller.signal,
+    onText: (text) => setEvolutionProgress(readPartialEvolution(text)),
+    onRetry: (retry, error, delayMs) => {
+      setEvolutionProgress(null);
+      setEvolutionStatus(\`\${error.message} Retrying in \${Math.round(delayMs / 1000)}s (retry \${retry})...\`);
+    },
+  });
+
+  // Resolves with the proposal now pending review, or null if there is none.
+  // conversation: the chat thread the goal continues (see evolveCode).
+  const handleEvolveRequest = async (filePath, goal, conversation = []) => {
     if (!goal) {
       setBootError("Cannot evolve: goal must be specified.");
-      return;
+      return null;
     }
+    const controller = new AbortController();
+    evolutionAbortRef.current = controller;
+    const context = buildEvolutionContext(projectFiles, filePath, llmSettings ? llmSettings.contextTokenBudget : undefined);
     setIsEvolving(true);
+    setEvolutionStatus('Evolving...');
+    setEvolutionProgress(null);
+    setEvolutionContext(context);
     setBootError(null);
     try {
-      const evolution = await evolveCode(filePath, goal, projectFiles);
-      setProjectFiles(prevFiles => {
-        const newFiles = { ...prevFiles };
-        switch(evolution.action) {
-          case 'UPDATE':
-          case 'CREATE':
-            newFiles[evolution.filePath] = evolution.code;
-            break;
-          case 'DELETE':
-            delete newFiles[evolution.filePath];
+      const { evolution, changes, edits, repairAttempts, testsChecked } = await proposeEvolution(
+        filePath, goal, projectFiles, { ...evolutionRequestOptions(controller, conversation), context }, setEvolutionStatus);
+      // Nothing touches the VFS until the user has reviewed the proposal.
+      const proposal = {
+        goal,
+        thought: evolution.thought,
+        summary: evolution.summary,
+        actions: evolution.actions,
+        edits,
+        changes,
+        repairAttempts,
+        testsChecked,
+        context,
+      };
+      setPendingEvolution(proposal);
+      return proposal;
+
+    } catch (err) {
+      if (controller.signal.aborted) {
+        console.log("OS: Evolution cancelled.");
+      } else if (err.name === 'LlmKeyError' && onOpenKeySettings) {
+        // Not a failure of the OS: the BIOS asks for the key, and the goal can be evolved again.
+        console.warn("OS: Evolution needs an API key:", err.message);
+        onOpenKeySettings(err.message);
+      } else {
+        setBootError(\`Evolution failed: \${err.message} No changes were made.\`);
+      }
+    } finally {
+      evolutionAbortRef.current = null;
+      setIsEvolving(false);
+      setEvolutionProgress(null);
+      setEvolutionContext(null);
+    }
+    return null;
+  };
+
+  // Resolves once the next build has finished, with its error message or null,
+  // or with { built: false } if no build finished within \`timeoutMs\`.
+  const waitForBuild = (timeoutMs) => new Promise(resolve => {
+    const waiter = (error) => {
+      clearTimeout(timer);
+      resolve({ built: true, error });
+    };
+    const timer = setTimeout(() => {
+      buildWaitersRef.current = buildWaitersRef.current.filter(w => w !== waiter);
+      resolve({ built: false, error: null });
+    }, timeoutMs);
+    buildWaitersRef.current.push(waiter);
+  });
+
+  // Agent mode (see ./lib/agent): plans the goal, then applies one step at a time
+  // without a review, rebuilding the kernel and running the tests after each, and
+  // sending a failed build, runtime errors or newly failing tests back to the model. Every applied step is a history entry of
+  // its own. Stopped through handleCancelEvolution like a single evolution.
+  // Resolves with { summary, changes } for the kernel's chat, \`changes\` being what
+  // the whole run changed, or null if no run started.
+  const handleAgentRequest = async (filePath, goal, conversation = []) => {
+    if (!goal) {
+      setBootError("Cannot evolve: goal must be specified.");
+      return null;
+    }
+    const controller = new AbortController();
+    evolutionAbortRef.current = controller;
+    const maxSteps = (llmSettings && llmSettings.agentMaxSteps) || DEFAULT_AGENT_MAX_STEPS;
+    const requestOptions = evolutionRequestOptions(controller, conversation);
+    const startFiles = savedFilesRef.current;
+    let run = { goal, state: 'planning', plan: null, steps: [], maxSteps, message: '' };
+    const updateRun = (fields) => {
+      run = { ...run, ...fields };
+      setAgentRun(run);
+    };
+    const updateStep = (number, fields) => updateRun({ steps: run.steps.map(step => (step.number === number ? { ...step, ...fields } : step)) });
+    const checkStopped = () => {
+      if (controller.signal.aborted) throw new Error("Stopped by the user.");
+    };
+    updateRun({});
+    setEvolutionStatus('Planning...');
+    setEvolutionProgress(null);
+    try {
+      const plan = await planAgentRun(llm, goal, startFiles, filePath, { ...requestOptions, maxSteps });
+      updateRun({ state: 'running', plan });
+      // Tests that already fail before the run are not the run's problem.
+      const baselineTests = await runTests(startFiles, compiler);
+      // The next step of the plan; problems found after the last step, which are fixed first;
+      // and why the last attempt was not applied.
+      let planIndex = 0;
+      let problems = null;
+      let rejection = null;
+      let expectedFiles = startFiles;
+      // Whether the project's /boot files differ from the running ones; they only run once promoted in the BIOS.
+      let changedBootFiles = false;
+      for (;;) {
+        if (!problems && planIndex >= plan.steps.length) {
+          updateRun({
+            state: 'succeeded',
+            message: changedBootFiles
+              ? 'Every step of the plan is applied and the kernel runs without errors. The changed boot files passed their health check; promote them in the BIOS boot candidate panel to run them.'
+              : 'Every step of the plan is applied and the kernel runs without errors.',
+          });
+          break;
+        }
+        if (run.steps.length >= maxSteps) {
+          updateRun({ state: 'limit', message: \`The step limit (\${maxSteps}) was reached before the goal was done.\` });
+          break;
+        }
+        const files = savedFilesRef.current;
+        if (!sameFiles(files, expectedFiles)) {
+          updateRun({ state: 'stopped', message: 'The project files were changed outside the run.' });
+          break;
+        }
+        const number = run.steps.length + 1;
+        const title = problems ? 'Fix the reported problems' : plan.steps[planIndex].title;
+        const stepGoal = agentStepGoal(goal, plan, run.steps, { planIndex, problems, rejection });
+        updateRun({ steps: [...run.steps, { number, title, summary: '', result: 'running', problems: [], historyEntryId: null }] });
+        console.log(\`OS: Agent step \${number}: \${title}\`);
+        const context = buildEvolutionContext(files, filePath, llmSettings ? llmSettings.contextTokenBudget : undefined);
+        const onStatus = (status) => setEvolutionStatus(\`Step \${number}: \${status}\`);
+        onStatus('Evolving...');
+        setEvolutionProgress(null);
+        let proposal;
+        try {
+          proposal = await proposeEvolution(filePath, stepGoal, files, { ...requestOptions, context }, onStatus);
+        } catch (e) {
+          checkStopped();
+          if (e.name === 'LlmKeyError') throw e;
+          updateStep(number, { result: 'rejected', problems: [e.message] });
+          rejection = e.message;
+          continue;
+        }
+        checkStopped();
+        rejection = null;
+
+        const label = \`Agent step \${number}: \${title}\`;
+        const accepted = {};
+        for (const [path, change] of Object.entries(proposal.changes)) accepted[path] = change.after;
+        const entries = devConsole ? devConsole.getEntries() : [];
+        const sinceId = entries.length > 0 ? entries[entries.length - 1].id : -1;
+        const built = waitForBuild(AGENT_BUILD_TIMEOUT_MS);
+        commitChanges(accepted, label);
+        onStatus('Booting...');
+        const { error } = await built;
+        // Errors of effects and timers show up after the first render.
+        await new Promise(resolve => setTimeout(resolve, AGENT_SETTLE_MS));
+        checkStopped();
+        const stepProblems = [
+          ...(error ? [\`The kernel failed to build: \${error}\`] : []),
+          ...(devConsole ? runtimeErrorsSince(devConsole.getEntries(), sinceId) : []),
+        ];
+        // The kernel keeps running the active boot slot, so the project's changed /boot
+        // files were not booted above. The BIOS health check boots them on their own.
+        changedBootFiles = !!kernelFiles && bootCodeChanged(kernelFiles, savedFilesRef.current);
+        if (changedBootFiles) {
+          if (!checkBootFiles) {
+            updateStep(number, { summary: proposal.evolution.summary || '', result: 'errors', problems: ['The changed boot files could not be booted to check them.'] });
+            updateRun({ state: 'stopped', message: 'A step changed /boot files, which this BIOS cannot check during a run. Test them in the BIOS boot candidate panel before going on.' });
             break;
-          default:
-            // This case should ideally not be reached if the AI respects the schema
-            throw new Error(\`Unknown action from AI: \${evolution.action}\`);
+          }
+          onStatus('Checking the boot files...');
+          const check = await checkBootFiles(savedFilesRef.current);
+          checkStopped();
+          if (check.error) stepProblems.push(\`The changed boot files failed their health check: \${check.error}\`);
+        }
+        if (testFilesOf(savedFilesRef.current).length > 0) {
+          onStatus('Running tests...');
+          const report = await runTests(savedFilesRef.current, compiler);
+          setTestReport(report);
+          stepProblems.push(...testRegressions(baselineTests, report, { includeNew: true }));
         }
-        return newFiles;
+        const history = historyRef.current;
+        const entry = history && history.entries[history.cursor - 1];
+        updateStep(number, {
+          summary: proposal.evolution.summary || '',
+          result: stepProblems.length > 0 ? 'errors' : 'ok',
+          problems: stepProblems,
+          historyEntryId: entry && entry.label === label ? entry.id : null,
+        });
+        if (!problems) planIndex++;
+        problems = stepProblems.length > 0 ? stepProblems : null;
+        expectedFiles = savedFilesRef.current;
+      }
+    } catch (err) {
+      const stopped = controller.signal.aborted;
+      updateRun({
+        state: stopped ? 'stopped' : 'failed',
+        message: stopped ? 'Stopped by the user.' : err.message,
+        steps: run.steps.map(step => (step.result === 'running' ? { ...step, result: 'rejected', problems: [stopped ? 'Stopped by the user.' : err.message] } : step)),
       });
+      if (!stopped && err.name === 'LlmKeyError' && onOpenKeySettings) onOpenKeySettings(err.message);
+    } finally {
+      evolutionAbortRef.current = null;
+      setEvolutionProgress(null);
+    }
+    console.log(\`OS: Agent run ended (\${run.state}): \${run.message}\`);
 
-    } catch (err) {
-      setBootError(\`Evolution failed: \${err.message}\`);
+    const changes = changedFiles(startFiles, savedFilesRef.current);
+    const stepLines = run.steps.map(step => \`\${step.number}. \${step.title}: \${step.summary || step.problems[0] || ''} [\${step.result}]\`);
+    return { summary: [\`Agent run: \${AGENT_STATE_LABELS[run.state]}. \${run.message}\`, ...stepLines].join('\\n'), changes };
+  };
+
+  // Runs the project's tests (see ./lib/testing) for the kernel's test panel.
+  const handleRunTests = async () => {
+    setIsTesting(true);
+    try {
+      setTestReport(await runTests(projectFiles, compiler));
+    } catch (e) {
+      console.error("OS: The tests could not be run:", e);
+      setTestReport({ files: [], passed: 0, failed: 0, error: e.message });
     } finally {
-      setIsEvolving(false);
+      setIsTesting(false);
     }
   };
 
+  // Moves the files back to before an agent step, undoing the later steps too.
+  const handleRevertAgentStep = (step) => {
+    const index = historyRef.current.entries.findIndex(entry => entry.id === step.historyEntryId);
+    if (index !== -1) onHistoryCheckout(index);
+  };
+
+  const handleCancelEvolution = () => {
+    if (evolutionAbortRef.current) evolutionAbortRef.current.abort();
+  };
+
+  // Writes changes to the VFS in one update, so they become a single history entry
+  // named \`label\`. A null content deletes the file.
+  const commitChanges = (acceptedChanges, label) => {
+    changeLabelRef.current = label;
+    setProjectFiles(prevFiles => {
+      const newFiles = { ...prevFiles };
+      for (const [path, content] of Object.entries(acceptedChanges)) {
+        if (content === null) {
+          delete newFiles[path];
+        } else {
+          newFiles[path] = content;
+        }
+      }
+      return newFiles;
+    });
+  };
+
+  // Applies the files the user accepted in the review.
+  const handleApplyEvolution = (acceptedChanges) => {
+    const goal = pendingEvolution ? pendingEvolution.goal : null;
+    setPendingEvolution(null);
+    if (Object.keys(acceptedChanges).length === 0) return;
+    commitChanges(acceptedChanges, goal);
+  };
+
+  const handleDiscardEvolution = () => {
+    setPendingEvolution(null);
+  };
+
   const handleFileChange = (filePath, newContent) => {
       setProjectFiles(prevFiles => ({
           ...prevFiles,
@@ -225,29 +949,46 @@ function Bootloader({ initialFiles, onSaveFiles, onFactoryReset }) {
       }));
   };
 
-  // The OS's own UI
-  if (isEvolving) {
-    return (
-        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center z-50 animate-fade-in">
-          <div className="animate-spin h-8 w-8 text-white" dangerouslySetInnerHTML={{__html: \`<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle class="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" stroke-width="4"></circle><path class="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>\`}} />
-          <p className="mt-4 text-slate-300">Evolving...</p>
-        </div>
-    );
-  }
+  const agentPanel = agentRun && (
+    <AgentPanel
+      run={agentRun}
+      status={evolutionStatus}
+      progress={evolutionProgress}
+      onStop={handleCancelEvolution}
+      onRevert={handleRevertAgentStep}
+      onClose={() => setAgentRun(null)}
+    />
+  );
 
+  // The OS's own UI
   if (bootError) {
+     // When the boot itself failed and the error maps to a file, show where.
+     const bootFailure = buildError && buildError.message === bootError && buildError.location ? buildError : null;
      return (
         <div className="fixed inset-0 bg-slate-950 flex flex-col items-center justify-center p-4">
             <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-left max-w-2xl w-full">
                 <strong className="font-bold">Operating System Boot Error!</strong>
                 <p className="mt-2 text-sm">The application kernel failed to compile or run. You may need to fix the code that caused the error or reset the project.</p>
-                <pre className="text-xs whitespace-pre-wrap mt-2 font-mono bg-red-950/50 p-2 rounded">{bootError}</pre>
+                {bootFailure ? (
+                  <div className="mt-2"><ErrorOverlay error={bootFailure} files={bootFiles} /></div>
+                ) : (
+                  <pre className="text-xs whitespace-pre-wrap mt-2 font-mono bg-red-950/50 p-2 rounded">{bootError}</pre>
+                )}
+                {recoveryPanel}
                  <button 
                     onClick={onFactoryReset}
                     className="mt-4 bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded">
                     Factory Reset
                  </button>
+                 {onSafeMode && (
+                   <button
+                      onClick={onSafeMode}
+                      className="mt-4 ml-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded">
+                      Boot in Safe Mode
+                   </button>
+                 )}
             </div>
+            {agentPanel}
         </div>
       );
   }
@@ -255,18 +996,59 @@ function Bootloader({ initialFiles, onSaveFiles, onFactoryReset }) {
   if (KernelComponent) {
     return (
       <React.Fragment>
+        {agentPanel}
         {isEvolving && (
-             <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center z-50 animate-fade-in">
-              <div className="animate-spin h-8 w-8 text-white" dangerouslySetInnerHTML={{__html: \`<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle class="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" stroke-width="4"></circle><path class="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>\`}} />
-              <p className="mt-4 text-slate-300">Evolving...</p>
-            </div>
+          <EvolutionProgress
+            status={evolutionStatus}
+            context={evolutionContext}
+            progress={evolutionProgress}
+            onCancel={handleCancelEvolution}
+          />
         )}
-        <KernelComponent
-          projectFiles={projectFiles}
-          onFileChange={handleFileChange}
-          onEvolveRequest={handleEvolveRequest}
-          onProjectReset={onFactoryReset}
-        />
+        {buildError && (
+          <div className="fixed top-20 right-4 z-40 w-full max-w-xl max-h-[70vh] overflow-y-auto bg-slate-900/95 border border-red-700 rounded-lg shadow-lg p-3">
+            <strong className="block mb-1 text-sm font-bold text-red-400">Build failed. The previous build is still running.</strong>
+            <ErrorOverlay
+              error={buildError}
+              files={bootFiles}
+              onOpenLocation={(location) => setEditorLocation({ ...location })}
+              onDismiss={() => setBuildError(null)}
+            />
+          </div>
+        )}
+        <HotUpdateBoundary key={kernelGeneration} canRecover={hotUpdatedRef.current} onError={handleHotUpdateError}>
+          <KernelComponent
+            projectFiles={projectFiles}
+            onFileChange={handleFileChange}
+            onEvolveRequest={handleEvolveRequest}
+            onAgentRequest={handleAgentRequest}
+            onRunTests={handleRunTests}
+            testReport={testReport}
+            isTesting={isTesting}
+            onProjectReset={onFactoryReset}
+            pendingEvolution={pendingEvolution}
+            onApplyEvolution={handleApplyEvolution}
+            onDiscardEvolution={handleDiscardEvolution}
+            history={history}
+            onUndo={onUndo}
+            onRedo={onRedo}
+            onHistoryCheckout={onHistoryCheckout}
+            llmSettings={llmSettings}
+            llmProviders={llmProviders}
+            onLlmSettingsChange={onLlmSettingsChange}
+            onOpenKeySettings={onOpenKeySettings}
+            llmCassette={llmCassette}
+            onLlmCassetteChange={onLlmCassetteChange}
+            chatSessions={chatSessions}
+            onChatSessionsChange={onChatSessionsChange}
+            storageStatus={storageStatus}
+            editorLocation={editorLocation}
+            devConsole={devConsole}
+            pendingBootPaths={pendingBootPaths}
+            compiler={compiler}
+            preview={preview}
+          />
+        </HotUpdateBoundary>
       </React.Fragment>
     );
   }
@@ -280,22 +1062,113 @@ export default Bootloader;
 import FileExplorer from '../components/FileExplorer';
 import Editor from '../components/Editor';
 import EvolveIcon from '../components/EvolveIcon';
+import Timeline from '../components/Timeline';
+import EvolutionReview from '../components/EvolutionReview';
+import SettingsPanel from '../components/SettingsPanel';
+import StorageIndicator from '../components/StorageIndicator';
+import ConsolePanel from '../components/ConsolePanel';
+import TestPanel from '../components/TestPanel';
+import ChatPanel from '../components/ChatPanel';
+import LivePreview from '../components/LivePreview';
+import { EMPTY_SESSIONS, activeSessionOf, appendMessage, createMessage, createSession, formatDiff, threadOf, updateMessage, updateSession } from '../lib/sessions';
 
 // This is the main "Kernel" component for the IDE application.
 // It receives the virtual file system and callbacks from the bootloader.
-function Kernel({ projectFiles, onFileChange, onEvolveRequest, onProjectReset }) {
+function Kernel({ projectFiles, onFileChange, onEvolveRequest, onAgentRequest, onRunTests, testReport, isTesting, onProjectReset, history, onUndo, onRedo, onHistoryCheckout, pendingEvolution, onApplyEvolution, onDiscardEvolution, llmSettings, llmProviders, onLlmSettingsChange, onOpenKeySettings, llmCassette, onLlmCassetteChange, chatSessions, onChatSessionsChange, storageStatus, editorLocation, devConsole, pendingBootPaths, compiler, preview }) {
   const [activeFile, setActiveFile] = React.useState('/boot/kernel.tsx');
   const [evolutionGoal, setEvolutionGoal] = React.useState('Make the file explorer collapsible');
   const [isLoading, setIsLoading] = React.useState(false);
+  // Whether goals start an agent run (see the bootloader) instead of a single proposal.
+  const [agentMode, setAgentMode] = React.useState(false);
+  const [showSettings, setShowSettings] = React.useState(false);
+  // Whether the main pane runs the project's app instead of showing the editor.
+  const [showPreview, setShowPreview] = React.useState(false);
+  // The chosen provider cannot be called until its key is added to, or unlocked in, the BIOS vault.
+  const activeProvider = llmSettings && llmProviders.find(p => p.id === llmSettings.provider);
+  const needsKey = !!activeProvider && activeProvider.keyRequirement === 'required' && activeProvider.keyStatus !== 'stored';
+
+  // Opening a file always shows it in the editor.
+  const openFile = (path) => {
+    setActiveFile(path);
+    setShowPreview(false);
+  };
+
+  // The OS sets editorLocation when the user opens an error location from its overlay.
+  React.useEffect(() => {
+    if (editorLocation) openFile(editorLocation.path);
+  }, [editorLocation]);
+
+  // Sessions are kept by the BIOS; without it (e.g. under an older bootloader) they last until reload.
+  const [localSessions, setLocalSessions] = React.useState(EMPTY_SESSIONS);
+  const sessions = chatSessions || localSessions;
+  // Evolving takes a while; updates made after it must start from the latest sessions.
+  const sessionsRef = React.useRef(sessions);
+  sessionsRef.current = sessions;
+  const writeSessions = (next) => {
+    sessionsRef.current = next;
+    (onChatSessionsChange || setLocalSessions)(next);
+  };
+  // The session and model message the pending evolution answers.
+  const pendingReplyRef = React.useRef(null);
 
   const activeFileContent = projectFiles[activeFile] || '';
 
   const handleEvolve = async () => {
+      const goal = evolutionGoal.trim();
+      let current = sessionsRef.current;
+      if (!activeSessionOf(current)) current = createSession(current);
+      const sessionId = current.activeId;
+      // Earlier turns of the thread, for the model to build on.
+      const conversation = threadOf(activeSessionOf(current));
+      writeSessions(updateSession(current, sessionId, s => appendMessage(s, createMessage('user', goal, { targetFilePath: activeFile }))));
       setIsLoading(true);
-      await onEvolveRequest(activeFile, evolutionGoal);
+      if (agentMode && onAgentRequest) {
+        const run = await onAgentRequest(activeFile, goal, conversation);
+        setIsLoading(false);
+        const applied = !!run && Object.keys(run.changes).length > 0;
+        const reply = run
+          ? createMessage('model', run.summary, applied ? { status: 'applied', diff: formatDiff(run.changes) } : { status: 'failed' })
+          : createMessage('model', 'The agent run did not start.', { status: 'failed' });
+        writeSessions(updateSession(sessionsRef.current, sessionId, s => appendMessage(s, reply)));
+        if (run) setEvolutionGoal('');
+        return;
+      }
+      const proposal = await onEvolveRequest(activeFile, goal, conversation);
       setIsLoading(false);
+      const reply = proposal
+        ? createMessage('model', proposal.summary || 'Proposed a change.', { status: 'proposed' })
+        : createMessage('model', 'No proposal: the evolution failed or was cancelled.', { status: 'failed' });
+      writeSessions(updateSession(sessionsRef.current, sessionId, s => appendMessage(s, reply)));
+      pendingReplyRef.current = proposal ? { sessionId, messageId: reply.id } : null;
+      if (proposal) setEvolutionGoal('');
   }
 
+  const settlePendingReply = (fields) => {
+      const pending = pendingReplyRef.current;
+      pendingReplyRef.current = null;
+      if (pending) {
+        writeSessions(updateSession(sessionsRef.current, pending.sessionId, s => updateMessage(s, pending.messageId, fields)));
+      }
+  };
+
+  const handleApplyEvolution = (acceptedChanges) => {
+      const applied = {};
+      for (const path of Object.keys(acceptedChanges)) {
+        applied[path] = { before: pendingEvolution.changes[path].before, after: acceptedChanges[path] };
+      }
+      settlePendingReply({ status: 'applied', diff: formatDiff(applied) });
+      onApplyEvolution(acceptedChanges);
+  };
+
+  const handleDiscardEvolution = () => {
+      settlePendingReply({ status: 'discarded' });
+      onDiscardEvolution();
+  };
+
+  const handleSendErrorsToGoal = (errors) => {
+    setEvolutionGoal(goal => \`\${goal.trim() ? \`\${goal.trim()} \` : ''}Fix these errors: \${errors}\`);
+  };
+
   const handleFileDelete = (filePath) => {
     if(window.confirm(\`Are you sure you want to delete \${filePath}?\`)) {
         onEvolveRequest(filePath, \`Delete the file at path: \${filePath}\`);
@@ -320,109 +1193,1366 @@ function Kernel({ projectFiles, onFileChange, onEvolveRequest, onProjectReset })
               Evolvable OS IDE
             </h1>
           </div>
-          <button
-              onClick={onProjectReset}
-              className="bg-red-600 hover:bg-red-700 text-white font-bold text-xs py-1 px-3 rounded-md transition-colors"
-          >
-            Factory Reset
-          </button>
+          <div className="flex items-center gap-2">
+            <StorageIndicator status={storageStatus} />
+            {preview && compiler && (
+              <button
+                  onClick={() => setShowPreview(show => !show)}
+                  className={\`\${showPreview ? 'bg-purple-600 hover:bg-purple-700' : 'bg-slate-700 hover:bg-slate-600'} text-slate-200 font-bold text-xs py-1 px-3 rounded-md transition-colors\`}
+              >
+                {showPreview ? 'Editor' : 'Preview'}
+              </button>
+            )}
+            {llmSettings && (
+              <button
+                  onClick={() => setShowSettings(true)}
+                  className="bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold text-xs py-1 px-3 rounded-md transition-colors"
+                  title={needsKey ? \`\${llmSettings.provider} · \${llmSettings.model} · no API key available\` : \`\${llmSettings.provider} · \${llmSettings.model}\`}
+              >
+                Settings{needsKey && <span className="ml-1 text-yellow-400">!</span>}
+              </button>
+            )}
+            <button
+                onClick={onProjectReset}
+                className="bg-red-600 hover:bg-red-700 text-white font-bold text-xs py-1 px-3 rounded-md transition-colors"
+            >
+              Factory Reset
+            </button>
+          </div>
       </header>
 
       <div className="flex-grow grid grid-cols-1 md:grid-cols-[300px_1fr] lg:grid-cols-[350px_1fr] h-[calc(100vh-73px)]">
-        <div className="flex flex-col bg-slate-800/50 border-r border-slate-800 h-full overflow-y-auto">
-           <FileExplorer 
-             files={projectFiles}
-             activeFile={activeFile}
-             onFileSelect={setActiveFile}
-             onFileCreate={handleFileCreate}
-             onFileDelete={handleFileDelete}
+        <div className="flex flex-col bg-slate-800/50 border-r border-slate-800 h-full overflow-hidden">
+           <div className="flex-grow min-h-0">
+             <FileExplorer 
+               files={projectFiles}
+               activeFile={activeFile}
+               onFileSelect={openFile}
+               onFileCreate={handleFileCreate}
+               onFileDelete={handleFileDelete}
+             />
+           </div>
+           <Timeline
+             history={history}
+             onUndo={onUndo}
+             onRedo={onRedo}
+             onCheckout={onHistoryCheckout}
            />
         </div>
 
         <div className="flex flex-col h-full">
             <div className="flex-grow flex flex-col">
-              <Editor
-                  filePath={activeFile}
-                  content={activeFileContent}
-                  onContentChange={(newContent) => onFileChange(activeFile, newContent)}
-              />
-            </div>
-            <div className="bg-slate-800/80 border-t border-slate-700 p-3 space-y-2">
-              <label htmlFor="goal" className="block text-sm font-medium text-slate-300">Evolution Goal for {activeFile}</label>
-              <div className="flex gap-2">
-                <input
-                  id="goal"
-                  type="text"
-                  value={evolutionGoal}
-                  onChange={(e) => setEvolutionGoal(e.target.value)}
-                  placeholder="Describe how to evolve the project..."
-                  className="flex-grow bg-slate-700 border border-slate-600 rounded-md p-2 text-slate-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition"
-                />
-                 <button
-                    onClick={handleEvolve}
-                    disabled={!evolutionGoal.trim() || isLoading}
-                    className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-md transition-all duration-300 disabled:bg-purple-900 disabled:cursor-not-allowed"
-                >
-                    {isLoading ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div> : <EvolveIcon className="w-5 h-5"/>}
-                     Evolve
-                </button>
-              </div>
+              {showPreview ? (
+                <LivePreview files={projectFiles} compiler={compiler} preview={preview} />
+              ) : (
+                <React.Fragment>
+                  {pendingBootPaths && pendingBootPaths.includes(activeFile) && (
+                    <p className="px-4 py-2 text-xs bg-amber-900/40 border-b border-amber-800 text-amber-200">
+                      Not running yet: edits to /boot are not hot-swapped. They take effect once the BIOS has tested and promoted them in its boot candidate panel.
+                    </p>
+                  )}
+                  <Editor
+                      filePath={activeFile}
+                      content={activeFileContent}
+                      onContentChange={(newContent) => onFileChange(activeFile, newContent)}
+                      location={editorLocation && editorLocation.path === activeFile ? editorLocation : null}
+                  />
+                </React.Fragment>
+              )}
             </div>
+            {onRunTests && <TestPanel report={testReport} isRunning={isTesting} onRun={onRunTests} onOpenFile={openFile} />}
+            <ConsolePanel devConsole={devConsole} onSendToGoal={handleSendErrorsToGoal} />
+            <ChatPanel
+              sessions={sessions}
+              onSessionsChange={writeSessions}
+              activeFile={activeFile}
+              goal={evolutionGoal}
+              onGoalChange={setEvolutionGoal}
+              onSend={handleEvolve}
+              isLoading={isLoading}
+              agentMode={agentMode}
+              onAgentModeChange={onAgentRequest ? setAgentMode : null}
+            />
         </div>
       </div>
+      {pendingEvolution && (
+        <EvolutionReview
+          evolution={pendingEvolution}
+          onApply={handleApplyEvolution}
+          onDiscard={handleDiscardEvolution}
+        />
+      )}
+      {showSettings && (
+        <SettingsPanel
+          settings={llmSettings}
+          providers={llmProviders}
+          onSave={onLlmSettingsChange}
+          onOpenKeySettings={onOpenKeySettings}
+          cassette={llmCassette}
+          onCassetteChange={onLlmCassetteChange}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 }
 export default Kernel;
   `,
-  '/components/FileExplorer.tsx': `
-function DeleteIcon({ className }) {
-    return (
-        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.134-2.033-2.134H8.716c-1.123 0-2.033.954-2.033 2.134v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
-        </svg>
-    );
-}
+  '/boot/lib/loader.ts': `
+// The OS module loader.
+// Compiles VFS files with Babel and evaluates them as CommonJS modules.
+// Both runProject (booting the kernel) and the evolution validator use it,
+// so a proposal is checked with exactly the rules that will later run it.
+import { cachedTranspile, getCachedTranspile, putCachedTranspile, transpileCacheKey } from './transpileCache';
+import { acceptHotExports } from './hot';
+import { withSourceMap } from './sourceMap';
 
-function FileExplorer({ files, activeFile, onFileSelect, onFileCreate, onFileDelete }) {
-    const filePaths = Object.keys(files).sort((a,b) => {
-      // Sort boot files to the top
-      if (a.startsWith('/boot/') && !b.startsWith('/boot/')) return -1;
-      if (!a.startsWith('/boot/') && b.startsWith('/boot/')) return 1;
-      return a.localeCompare(b);
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+// Shared by both compile paths, so the worker and the main thread produce the same output.
+const BABEL_CONFIG = {
+    presets: ['react', 'typescript'],
+    plugins: [['transform-modules-commonjs', { "strictMode": false }]]
+};
+
+export const isScriptFile = (path) => SCRIPT_EXTENSIONS.some(ext => path.endsWith(ext));
+
+/**
+ * Transpiles a single file with the OS Babel config. Successful results are cached by content hash,
+ * including those precompile got from the compile worker.
+ * @returns The CommonJS code, its source map and the module specifiers the file imports.
+ * @throws If the file does not compile. The error's \`location\` is { path, line, column }
+ *   when Babel reported where.
+ */
+export const transpile = (filePath, code) => {
+    const result = cachedTranspile(transpileCacheKey(filePath, code), () => transpileUncached(filePath, code));
+    if (result.code === null) {
+        const [diagnostic] = result.diagnostics;
+        const error = new Error(diagnostic.message);
+        if (diagnostic.line !== null) {
+            error.location = { path: filePath, line: diagnostic.line, column: diagnostic.column };
+        }
+        throw error;
+    }
+    return result;
+};
+
+const transpileUncached = (filePath, code) => {
+    const imports = [];
+    // Records import/export-from specifiers before the CommonJS transform rewrites them.
+    const collectImports = () => ({
+        visitor: {
+            ImportDeclaration(path) { imports.push(path.node.source.value); },
+            ExportNamedDeclaration(path) { if (path.node.source) imports.push(path.node.source.value); },
+            ExportAllDeclaration(path) { imports.push(path.node.source.value); },
+        }
     });
+    let output;
+    try {
+        output = Babel.transform(code, {
+            filename: filePath, // Required for TS preset
+            presets: BABEL_CONFIG.presets,
+            plugins: [collectImports, ...BABEL_CONFIG.plugins],
+            sourceMaps: true
+        });
+    } catch (e) {
+        // The same shape the compile worker reports failures in.
+        const diagnostic = { message: e.message, line: e.loc ? e.loc.line : null, column: e.loc ? e.loc.column : null };
+        return { code: null, map: null, imports, diagnostics: [diagnostic] };
+    }
+    const map = output.map || null;
+    // The source is in the VFS already; keeping it would double the size of the cache.
+    if (map) delete map.sourcesContent;
+    return { code: output.code, map, imports, diagnostics: [] };
+};
 
-    return (
-        <div className="p-2 flex flex-col h-full">
-            <div className="flex items-center justify-between px-2 mb-1">
-                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Project Files</h2>
-                <button 
-                    onClick={onFileCreate}
-                    className="text-slate-400 hover:text-slate-100"
-                    title="Create New File"
-                >
-                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m3.75 9v6m3-3H9m1.5-12H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
-                    </svg>
-                </button>
-            </div>
-            <ul className="space-y-1 flex-grow overflow-y-auto">
-                {filePaths.map(path => (
-                    <li key={path} className="group flex items-center">
-                        <button 
-                            onClick={() => onFileSelect(path)}
-                            className={\`w-full text-left px-3 py-1.5 text-sm rounded-md transition-colors flex-grow \${activeFile === path ? 'bg-purple-500/20 text-purple-200' : 'text-slate-300 hover:bg-slate-700/50'}\`}
-                        >
-                            {path.startsWith('/boot/') && '🔴 '}{path.substring(path.lastIndexOf('/') + 1)}
-                        </button>
-                        {!path.startsWith('/boot/') && (
-                             <button 
-                                onClick={(e) => {e.stopPropagation(); onFileDelete(path);}}
-                                className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 p-1 flex-shrink-0"
-                                title={\`Delete \${path}\`}
-                            >
-                                <DeleteIcon className="w-4 h-4" />
-                            </button>
+/**
+ * Compiles the script files reachable from \`entryPaths\` with the compiler the BIOS
+ * provides, which runs Babel in a Web Worker, and stores the results in the transpile
+ * cache. Evaluating the modules afterwards only reads the cache, so Babel no longer
+ * blocks the editor during a rebuild. Files that fail to compile are not cached;
+ * transpile compiles them again and throws their diagnostics.
+ */
+export const precompile = async (projectFiles, compiler, entryPaths) => {
+    const visited = new Set();
+    const visit = async (path) => {
+        if (visited.has(path) || !isScriptFile(path)) return;
+        visited.add(path);
+        const code = projectFiles[path];
+        const key = transpileCacheKey(path, code);
+        let result = getCachedTranspile(key);
+        if (!result) {
+            result = await compiler.compile({ filePath: path, code, config: BABEL_CONFIG });
+            if (result.code !== null) putCachedTranspile(key, result);
+        }
+        await Promise.all(result.imports.map(specifier => {
+            const resolvedPath = resolveModulePath(projectFiles, path, specifier);
+            return resolvedPath && visit(resolvedPath);
+        }));
+    };
+    await Promise.all(entryPaths.filter(path => projectFiles.hasOwnProperty(path)).map(visit));
+};
+
+/**
+ * Resolves an import like '../components/Editor' against the project files,
+ * trying the .tsx/.ts extensions and index files.
+ * @returns The resolved VFS path, or null if no file matches.
+ */
+export const resolveModulePath = (projectFiles, importerPath, importPath) => {
+    const pathParts = importerPath.split('/');
+    pathParts.pop();
+    const base = \`file://\${pathParts.join('/')}/\`;
+    const baseResolvedPath = new URL(importPath, base).pathname;
+
+    const possiblePaths = [
+        baseResolvedPath,
+        \`\${baseResolvedPath}.tsx\`,
+        \`\${baseResolvedPath}.ts\`,
+        \`\${baseResolvedPath}/index.tsx\`,
+        \`\${baseResolvedPath}/index.ts\`
+    ];
+    return possiblePaths.find(p => projectFiles.hasOwnProperty(p)) || null;
+};
+
+/**
+ * Creates a require function over a fixed set of project files.
+ * Every loader has its own module cache, so separate loaders never share module instances,
+ * except for modules explicitly carried over from \`previousModules\`.
+ * @param externals Modules provided by the host, keyed by specifier (e.g. { react: React }).
+ * @param previousModules The \`modules\` of a loader over an earlier version of the files.
+ *   A module whose source and dependencies are all unchanged keeps its evaluated
+ *   exports instead of being run again.
+ * @param hotRegistry From createHotRegistry. Exported components of every evaluated
+ *   module are swapped into the registry's proxies (see ./hot).
+ * @returns The require function; its \`modules\` property holds the modules it evaluated or reused.
+ */
+export const createModuleLoader = (projectFiles, externals, previousModules = null, hotRegistry = null) => {
+    const moduleCache = {};
+    // path -> whether the previous module can be reused; filled lazily.
+    const reusable = {};
+
+    const canReuse = (path) => {
+        if (path in reusable) return reusable[path];
+        const previous = previousModules && previousModules[path];
+        if (!previous || previous.source !== projectFiles[path]) {
+            return (reusable[path] = false);
+        }
+        // Optimistic while recursing, so import cycles terminate.
+        reusable[path] = true;
+        // An import can also resolve differently now, e.g. when a file was added or deleted.
+        return (reusable[path] = previous.imports.every(({ specifier, resolvedPath }) =>
+            resolvedPath === null
+                ? externals.hasOwnProperty(specifier)
+                : resolveModulePath(projectFiles, path, specifier) === resolvedPath && canReuse(resolvedPath)));
+    };
+
+    const customRequire = (importerPath, importPath) => {
+        // Simple external module support
+        if (externals.hasOwnProperty(importPath)) return externals[importPath];
+
+        const finalResolvedPath = resolveModulePath(projectFiles, importerPath, importPath);
+        if (!finalResolvedPath) {
+            throw new Error(\`Module not found: Can't import '\${importPath}' from '\${importerPath}'\`);
+        }
+
+        if (moduleCache[finalResolvedPath]) {
+            return moduleCache[finalResolvedPath].exports;
+        }
+
+        if (canReuse(finalResolvedPath)) {
+            const previous = previousModules[finalResolvedPath];
+            moduleCache[finalResolvedPath] = previous;
+            // Its dependencies are reusable too; carry them over so a later loader sees the whole graph.
+            previous.imports.forEach(({ specifier }) => customRequire(finalResolvedPath, specifier));
+            return previous.exports;
+        }
+
+        const source = projectFiles[finalResolvedPath];
+        const { code, map } = transpile(finalResolvedPath, source);
+
+        const module = { exports: {}, source, imports: [] };
+        moduleCache[finalResolvedPath] = module;
+        const factory = new Function('React', 'require', 'module', 'exports', withSourceMap(code, map, finalResolvedPath, source));
+        // Each module gets its own require function scoped to its path, which also
+        // records what the module depends on.
+        const scopedRequire = (p) => {
+            const exports = customRequire(finalResolvedPath, p);
+            if (!module.imports.some(entry => entry.specifier === p)) {
+                const resolvedPath = externals.hasOwnProperty(p) ? null : resolveModulePath(projectFiles, finalResolvedPath, p);
+                module.imports.push({ specifier: p, resolvedPath });
+            }
+            return exports;
+        };
+
+        factory(externals.react, scopedRequire, module, module.exports);
+        if (hotRegistry) acceptHotExports(hotRegistry, finalResolvedPath, module.exports);
+        return module.exports;
+    };
+
+    // The initial require starts from the root
+    const requireModule = (entryPath) => customRequire(entryPath, entryPath);
+    requireModule.modules = moduleCache;
+    return requireModule;
+};
+`,
+  '/boot/lib/transpileCache.ts': `// Babel output cache.
+// Entries are keyed by a hash of the Babel version, the file path and its source,
+// so they never need invalidating: changed code simply hashes differently. The
+// cache lives in memory and its most recent entries are mirrored to localStorage,
+// so after a reload only files that changed since the last session go through Babel again.
+
+const STORAGE_KEY = 'self-evolving-transpile-cache-v1';
+// Oldest entries are dropped first; edits leave many outdated versions behind.
+const MAX_ENTRIES = 300;
+// localStorage is shared with the rest of the OS, so the mirrored part is capped by
+// its serialized size (about 2 MB as UTF-16) rather than by the number of entries.
+const MAX_PERSISTED_CHARS = 1000000;
+const PERSIST_DELAY_MS = 1000;
+
+// cyrb53: a fast 53-bit string hash. Collisions are not a concern at this cache size.
+const hashString = (text) => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const loadEntries = () => {
+    try {
+        const saved = window.localStorage.getItem(STORAGE_KEY);
+        // Earlier versions also stored failures; those are compiled again.
+        return new Map(saved ? JSON.parse(saved).filter(([, result]) => result.code !== null) : []);
+    } catch (e) {
+        console.error("Failed to load the transpile cache from localStorage", e);
+        return new Map();
+    }
+};
+
+// Insertion order doubles as recency: a hit moves the entry to the end.
+let entries = null;
+let persistTimer = null;
+
+const persist = () => {
+    persistTimer = null;
+    // Newest first, until the budget is spent; a single oversized entry is skipped.
+    const serialized = [];
+    let size = 2;
+    for (const entry of [...entries].reverse()) {
+        const json = JSON.stringify(entry);
+        if (size + json.length + 1 > MAX_PERSISTED_CHARS) continue;
+        serialized.push(json);
+        size += json.length + 1;
+    }
+    try {
+        window.localStorage.setItem(STORAGE_KEY, \`[\${serialized.reverse().join(',')}]\`);
+    } catch (e) {
+        // Most likely the quota; the in-memory cache still works for this session.
+        console.error("Failed to save the transpile cache to localStorage", e);
+        window.localStorage.removeItem(STORAGE_KEY);
+    }
+};
+
+export const transpileCacheKey = (filePath, code) =>
+    \`\${hashString(\`\${Babel.version}\\n\${filePath}\\n\${code}\`)}-\${code.length}\`;
+
+/** Returns the cached result for \`key\`, or undefined. */
+export const getCachedTranspile = (key) => {
+    if (!entries) entries = loadEntries();
+    if (!entries.has(key)) return undefined;
+    const hit = entries.get(key);
+    entries.delete(key);
+    entries.set(key, hit);
+    return hit;
+};
+
+/** Stores a successful result for \`key\`, e.g. one the BIOS compile worker produced. */
+export const putCachedTranspile = (key, result) => {
+    if (!entries) entries = loadEntries();
+    entries.set(key, result);
+    while (entries.size > MAX_ENTRIES) {
+        entries.delete(entries.keys().next().value);
+    }
+    if (!persistTimer) persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+};
+
+/**
+ * Returns the cached result for \`key\`, or computes and returns it. Only results that
+ * compiled are stored: a failure may be transient (e.g. Babel not loaded yet) and
+ * must not stick to that source across reloads.
+ */
+export const cachedTranspile = (key, compute) => {
+    const hit = getCachedTranspile(key);
+    if (hit !== undefined) return hit;
+    const result = compute();
+    if (result.code !== null) putCachedTranspile(key, result);
+    return result;
+};
+`,
+  '/boot/lib/context.ts': `// Context assembly for evolution prompts.
+// Besides the file tree, the model gets the code of the target file and of the
+// files around it in the import graph: the modules it imports, whose props and
+// exports it relies on, and the modules importing it, which break when its
+// interface changes. Imports are resolved with the loader's own rules, so this is
+// the graph the OS actually runs. Nearer files come first, until the budget is spent.
+import { getCachedTranspile, transpileCacheKey } from './transpileCache';
+import { isScriptFile, resolveModulePath } from './loader';
+
+// For projects whose settings do not set a budget.
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 24000;
+
+// A rough average for source code; the budget is a guide, not a hard model limit.
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Finds import specifiers in files the transpile cache has no entry for, including
+// files that do not compile, without running Babel for the whole project.
+const IMPORT_PATTERN = /(?:import|export)\\s[^'";]*?from\\s*['"]([^'"]+)['"]|import\\s*\\(?\\s*['"]([^'"]+)['"]|require\\(\\s*['"]([^'"]+)['"]\\s*\\)/g;
+
+const importSpecifiers = (path, code) => {
+    const cached = getCachedTranspile(transpileCacheKey(path, code));
+    if (cached) return cached.imports;
+    return [...code.matchAll(IMPORT_PATTERN)].map(match => match[1] || match[2] || match[3]);
+};
+
+// The project's import graph: every script file with the project files it imports.
+const importGraph = (projectFiles) => {
+    const graph = {};
+    for (const path of Object.keys(projectFiles)) {
+        if (!isScriptFile(path)) continue;
+        const resolved = importSpecifiers(path, projectFiles[path])
+            .map(specifier => resolveModulePath(projectFiles, path, specifier))
+            .filter(Boolean);
+        graph[path] = [...new Set(resolved)];
+    }
+    return graph;
+};
+
+// Breadth-first from \`start\` along \`next\`, with each reachable path's distance.
+const distancesFrom = (start, next) => {
+    const distances = new Map([[start, 0]]);
+    const queue = [start];
+    while (queue.length > 0) {
+        const path = queue.shift();
+        for (const neighbour of next(path)) {
+            if (distances.has(neighbour)) continue;
+            distances.set(neighbour, distances.get(path) + 1);
+            queue.push(neighbour);
+        }
+    }
+    distances.delete(start);
+    return distances;
+};
+
+/**
+ * Picks the files to show the model for a change to \`targetFilePath\`.
+ * The target is always included. Its dependencies and the modules that import it
+ * follow by distance in the import graph, dependencies first at equal distance;
+ * a file that does not fit into the remaining budget is left out.
+ * @returns { targetFilePath, files, omitted, tokens, budget }. \`files\` and \`omitted\`
+ *   list { path, relation: 'target' | 'dependency' | 'dependent', distance, tokens }.
+ */
+export const buildEvolutionContext = (projectFiles, targetFilePath, budget = DEFAULT_CONTEXT_TOKEN_BUDGET) => {
+    const graph = importGraph(projectFiles);
+    const importers = {};
+    for (const [path, imports] of Object.entries(graph)) {
+        for (const imported of imports) (importers[imported] = importers[imported] || []).push(path);
+    }
+
+    const candidates = [];
+    for (const [path, distance] of distancesFrom(targetFilePath, path => graph[path] || [])) {
+        candidates.push({ path, relation: 'dependency', distance });
+    }
+    for (const [path, distance] of distancesFrom(targetFilePath, path => importers[path] || [])) {
+        // A file both importing and imported by the target (a cycle) is listed once.
+        if (!candidates.some(candidate => candidate.path === path)) candidates.push({ path, relation: 'dependent', distance });
+    }
+    candidates.sort((a, b) => a.distance - b.distance || (a.relation === b.relation ? a.path.localeCompare(b.path) : a.relation === 'dependency' ? -1 : 1));
+
+    const files = [];
+    const omitted = [];
+    let tokens = 0;
+    if (projectFiles.hasOwnProperty(targetFilePath)) {
+        tokens = estimateTokens(projectFiles[targetFilePath]);
+        files.push({ path: targetFilePath, relation: 'target', distance: 0, tokens });
+    }
+    for (const candidate of candidates) {
+        const entry = { ...candidate, tokens: estimateTokens(projectFiles[candidate.path]) };
+        if (tokens + entry.tokens <= budget) {
+            files.push(entry);
+            tokens += entry.tokens;
+        } else {
+            omitted.push(entry);
+        }
+    }
+    return { targetFilePath, files, omitted, tokens, budget };
+};
+
+/** How a context file relates to the target, for the prompt and the UI. */
+export const describeRelation = (file) => {
+    if (file.relation === 'target') return 'the file the goal is about';
+    if (file.relation === 'dependency') return file.distance === 1 ? 'imported by the target' : 'indirectly imported by the target';
+    return file.distance === 1 ? 'imports the target' : 'indirectly imports the target';
+};
+`,
+  '/boot/lib/hot.ts': `// Hot module replacement for the kernel.
+// Every function component a module exports is handed out as a stable proxy
+// component. When the module is evaluated again after an edit, the proxy starts
+// rendering the new implementation, so React keeps the mounted tree and its state
+// instead of remounting the IDE. Components a module does not export get a new
+// identity on every evaluation and remount, as before.
+// Only modules outside /boot are hot-swapped. The boot code runs from the BIOS's
+// active boot slot, so edits to it are boot candidates until promoted, and a
+// changed /boot file always boots the kernel from scratch (see runProject).
+
+const HOOK_CALL = /\\b(use[A-Z]\\w*)\\s*\\(/g;
+
+// The implementation runs inside the proxy, so its hooks are the proxy's. If the
+// list of hooks changed, the old state cannot be reused and the component remounts.
+const hookSignature = (component) =>
+    [...Function.prototype.toString.call(component).matchAll(HOOK_CALL)].map(match => match[1]).join(',');
+
+const isFunctionComponent = (value, exportName) =>
+    typeof value === 'function' &&
+    !(value.prototype && value.prototype.isReactComponent) &&
+    /^[A-Z]/.test(exportName === 'default' ? value.name : exportName);
+
+/** One registry belongs to one mounted kernel; a full reboot starts with a new one. */
+export const createHotRegistry = () => ({ components: {} });
+
+/**
+ * Replaces every exported function component of a freshly evaluated module with
+ * its proxy and points the proxy at the new implementation.
+ */
+export const acceptHotExports = (registry, modulePath, exports) => {
+    if (!exports || typeof exports !== 'object') return;
+    for (const name of Object.keys(exports)) {
+        const descriptor = Object.getOwnPropertyDescriptor(exports, name);
+        // Re-exports are getters onto another module's exports, which have their own proxies.
+        if (!descriptor || !descriptor.writable) continue;
+        const component = descriptor.value;
+        if (!isFunctionComponent(component, name)) continue;
+
+        const id = \`\${modulePath}#\${name}\`;
+        const signature = hookSignature(component);
+        let entry = registry.components[id];
+        if (!entry || entry.signature !== signature) {
+            const created = { current: component, signature, proxy: null };
+            created.proxy = (props) => created.current(props);
+            created.proxy.displayName = component.displayName || component.name || name;
+            registry.components[id] = entry = created;
+        }
+        entry.current = component;
+        exports[name] = entry.proxy;
+    }
+};
+`,
+  '/boot/lib/sourceMap.ts': `// Source maps for evaluated modules.
+// Modules run through \`new Function\`, so their stack frames would otherwise point
+// at anonymous code. Every module is tagged with a sourceURL naming its VFS path
+// and an inline source map for the browser's developer tools, and errors are
+// mapped back to the original file and line here for the error overlay.
+import { getCachedTranspile, transpileCacheKey } from './transpileCache';
+
+const VFS_URL_PREFIX = 'vfs://';
+
+// \`new Function\` puts its parameter list in front of the body: "function anonymous(...\\n) {\\n".
+const FUNCTION_HEADER_LINES = 2;
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Decodes a map's "mappings" into one list per generated line of
+// [generatedColumn, originalLine, originalColumn] segments, all 0-based.
+const decodeMappings = (mappings) => {
+    const lines = [];
+    let originalLine = 0;
+    let originalColumn = 0;
+    for (const lineText of mappings.split(';')) {
+        const segments = [];
+        let generatedColumn = 0;
+        for (const segmentText of lineText.split(',')) {
+            if (!segmentText) continue;
+            // Base64 VLQ: 5 bits per digit, the 6th bit continues the value, the lowest bit is the sign.
+            const values = [];
+            let value = 0;
+            let shift = 0;
+            for (const ch of segmentText) {
+                const digit = BASE64_DIGITS.indexOf(ch);
+                value += (digit & 31) << shift;
+                if (digit & 32) {
+                    shift += 5;
+                } else {
+                    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+                    value = 0;
+                    shift = 0;
+                }
+            }
+            generatedColumn += values[0];
+            if (values.length >= 4) {
+                originalLine += values[2];
+                originalColumn += values[3];
+                segments.push([generatedColumn, originalLine, originalColumn]);
+            }
+        }
+        lines.push(segments);
+    }
+    return lines;
+};
+
+/**
+ * Maps a 0-based position in the generated code back to the original source.
+ * @returns The 1-based line and 0-based column, or null if nothing maps there.
+ */
+const originalPosition = (map, line, column) => {
+    const segments = decodeMappings(map.mappings)[line] || [];
+    let match = null;
+    for (const segment of segments) {
+        if (segment[0] > column) break;
+        match = segment;
+    }
+    return match && { line: match[1] + 1, column: match[2] };
+};
+
+/**
+ * Appends a sourceURL and an inline source map to module code that is about to be
+ * evaluated with \`new Function\`, so stack traces and the debugger show \`filePath\`.
+ * @param map The map Babel generated for \`code\`, or null.
+ * @param source The original file content, embedded so the debugger can show it.
+ */
+export const withSourceMap = (code, map, filePath, source) => {
+    let annotated = \`\${code}\\n//# sourceURL=\${VFS_URL_PREFIX}\${filePath}\`;
+    if (map) {
+        const inlineMap = {
+            ...map,
+            sources: [filePath],
+            sourcesContent: [source],
+            mappings: ';'.repeat(FUNCTION_HEADER_LINES) + map.mappings,
+        };
+        const encoded = btoa(unescape(encodeURIComponent(JSON.stringify(inlineMap))));
+        annotated += \`\\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,\${encoded}\`;
+    }
+    return annotated;
+};
+
+/**
+ * Finds where in the project files an error comes from: the location a compile
+ * error carries, or else the first stack frame in a module tagged by withSourceMap.
+ * @returns { path, line, column } with a 1-based line and 0-based column, or null.
+ */
+export const locateError = (error, projectFiles) => {
+    if (!error) return null;
+    if (error.location) return error.location;
+    const frame = /vfs:\\/\\/(\\/[^\\s()]+?):(\\d+):(\\d+)/g;
+    for (const [, path, line, column] of String(error.stack || '').matchAll(frame)) {
+        if (!projectFiles.hasOwnProperty(path)) continue;
+        const compiled = getCachedTranspile(transpileCacheKey(path, projectFiles[path]));
+        if (!compiled || !compiled.map) continue;
+        // Stack positions are 1-based and count the header lines; the cached map does not.
+        const position = originalPosition(compiled.map, Number(line) - 1 - FUNCTION_HEADER_LINES, Number(column) - 1);
+        if (position) return { path, ...position };
+    }
+    return null;
+};
+
+/**
+ * Renders the lines around a location the way Babel does, with the line marked
+ * by '>' and a caret under the column.
+ */
+export const codeFrame = (source, line, column, contextLines = 2) => {
+    const lines = source.split('\\n');
+    const first = Math.max(1, line - contextLines);
+    const last = Math.min(lines.length, line + contextLines);
+    const gutterWidth = String(last).length;
+    const frame = [];
+    for (let number = first; number <= last; number++) {
+        const gutter = String(number).padStart(gutterWidth);
+        frame.push(\`\${number === line ? '>' : ' '} \${gutter} | \${lines[number - 1]}\`);
+        if (number === line && column !== null) {
+            frame.push(\`  \${' '.repeat(gutterWidth)} | \${' '.repeat(column)}^\`);
+        }
+    }
+    return frame.join('\\n');
+};
+`,
+  '/boot/lib/validate.ts': `
+// Pre-apply validation for evolutions.
+// A proposal is only offered for review once every changed file compiles,
+// every import it makes resolves, and the kernel boots from the proposed files.
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import { transpile, precompile, isScriptFile, resolveModulePath, createModuleLoader } from './loader';
+import { TEST_MODULE, isTestFile } from './testing';
+
+const KERNEL_PATH = '/boot/kernel.tsx';
+
+// The bootloader and its helpers are loaded by the BIOS, which provides more externals than the OS does.
+const BIOS_EXTERNALS = ['react', 'react-dom', 'react-dom/client', '@google/genai'];
+const OS_EXTERNALS = ['react'];
+// Test files also get the test API (see ./testing).
+const TEST_EXTERNALS = ['react', 'react-dom', 'react-dom/client', TEST_MODULE];
+
+const isBiosLoaded = (path) => path === '/boot/bootloader.tsx' || path.startsWith('/boot/lib/');
+
+/**
+ * Evaluates the kernel from the given files and renders it into a detached DOM node.
+ * @param kernelProps Props for the test render; \`projectFiles\` is always set to \`files\`.
+ * @returns An error message, or null if the kernel booted.
+ */
+export const testBootKernel = (files, kernelProps) => {
+    const errors = [];
+    let root = null;
+    try {
+        const Kernel = createModuleLoader(files, { react: React })(KERNEL_PATH).default;
+        if (typeof Kernel !== 'function') {
+            return \`Kernel entry point ('\${KERNEL_PATH}') did not export a default component.\`;
+        }
+        root = createRoot(document.createElement('div'), {
+            onUncaughtError: (error) => errors.push(error),
+            onCaughtError: (error) => errors.push(error),
+        });
+        flushSync(() => root.render(React.createElement(Kernel, { ...kernelProps, projectFiles: files })));
+    } catch (e) {
+        errors.push(e);
+    } finally {
+        if (root) root.unmount();
+    }
+    return errors.length > 0 ? \`Test boot of the kernel failed: \${errors[0].message}\` : null;
+};
+
+// The BIOS compiles its own modules from a transformed source (it escapes stray
+// backslashes in the bootloader), so they are checked in the form that will boot.
+const sourceToCompile = (compiler, path, code) =>
+    isBiosLoaded(path) && compiler.bootSource ? compiler.bootSource(path, code) : code;
+
+/**
+ * Compiles the files that differ between the two sets and checks that their imports resolve.
+ * @param compiler The BIOS compiler.
+ * @returns Human-readable problems, empty when every changed file compiles.
+ */
+export const findCompileProblems = async (currentFiles, proposedFiles, compiler) => {
+    const problems = [];
+    const changedPaths = Object.keys(proposedFiles)
+        .filter(path => isScriptFile(path) && proposedFiles[path] !== currentFiles[path]);
+    const sources = { ...proposedFiles };
+    for (const path of changedPaths) sources[path] = sourceToCompile(compiler, path, proposedFiles[path]);
+    await precompile(sources, compiler, [KERNEL_PATH, ...changedPaths]);
+
+    for (const path of changedPaths) {
+        let result;
+        try {
+            result = transpile(path, sources[path]);
+        } catch (e) {
+            problems.push(\`\${path}: \${e.message}\`);
+            continue;
+        }
+        const externals = isBiosLoaded(path) ? BIOS_EXTERNALS : isTestFile(path) ? TEST_EXTERNALS : OS_EXTERNALS;
+        for (const importPath of result.imports) {
+            if (externals.includes(importPath)) continue;
+            if (!resolveModulePath(proposedFiles, path, importPath)) {
+                problems.push(\`\${path}: Module not found: Can't import '\${importPath}'\`);
+            }
+        }
+    }
+    return problems;
+};
+
+/**
+ * Checks a proposed file set before it replaces the current one.
+ * @param compiler The BIOS compiler; the proposal is compiled with it before the checks run.
+ * @returns Human-readable problems, empty when the proposal is safe to apply.
+ */
+export const validateEvolution = async (currentFiles, proposedFiles, kernelProps, compiler) => {
+    const problems = await findCompileProblems(currentFiles, proposedFiles, compiler);
+
+    // Booting only makes sense once everything compiles; it also catches
+    // unchanged files whose imports were broken by a delete or rename.
+    if (problems.length === 0) {
+        const bootProblem = testBootKernel(proposedFiles, kernelProps);
+        if (bootProblem) problems.push(bootProblem);
+    }
+    return problems;
+};
+`,
+  '/boot/lib/agent.ts': `// Agent mode for evolutions.
+// A goal too large for one proposal is first broken into a plan. The bootloader
+// then proposes and applies one step at a time, rebuilds the kernel after each
+// and watches it: a failed build or runtime errors go back to the model as the
+// next step. The run ends when the plan is done and the kernel runs cleanly, at
+// the step limit, or when the user stops it. These are the prompts and checks
+// it uses; the run itself is in the bootloader, which owns the files and builds.
+
+// For projects whose settings do not set a limit.
+export const DEFAULT_AGENT_MAX_STEPS = 8;
+
+// Only the latest steps of a long run are described to the model.
+const MAX_LOGGED_STEPS = 10;
+// Stack traces are cut; the first lines say where an error was thrown.
+const MAX_ERROR_CHARS = 800;
+
+const planSchema = {
+    type: 'object',
+    properties: {
+        thought: { type: 'string', description: "How you approach the goal." },
+        steps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string', description: "A few words naming the step." },
+                    detail: { type: 'string', description: "What the step changes, in which files." }
+                },
+                propertyOrdering: ['title', 'detail'],
+                required: ['title', 'detail']
+            }
+        }
+    },
+    propertyOrdering: ['thought', 'steps'],
+    required: ['thought', 'steps']
+};
+
+/**
+ * Asks the model to break \`goal\` into steps that can each be applied and booted on their own.
+ * @param options maxSteps bounds the plan; conversation is the chat thread the goal
+ *   continues. The remaining options (signal, onText, onRetry) go to the model request.
+ * @returns { thought, steps: [{ title, detail }] }, with at least one step.
+ */
+export const planAgentRun = async (llm, goal, projectFiles, targetFilePath, { maxSteps, conversation = [], ...requestOptions }) => {
+    const earlierGoals = conversation.filter(message => message.role === 'user').map(message => \`- \${message.text}\`);
+    const prompt = \`
+    You are an expert AI developer planning changes to a self-evolving React application.
+    The application has a BIOS, an OS (/boot/bootloader.tsx) and a Kernel (/boot/kernel.tsx, the IDE's UI).
+
+    Break the user's GOAL into a short, ordered plan. Every step is carried out as a separate change;
+    after each one the application is rebuilt and booted, and any errors are reported back before the next step.
+    So every step must leave the application working, and later steps may build on earlier ones.
+    Use at most \${maxSteps} steps and fewer where you can: fixing errors also takes steps. A small goal is a single step.
+
+    PROJECT FILE TREE:
+    ---
+    \${Object.keys(projectFiles).join('\\n')}
+    ---
+    \${earlierGoals.length > 0 ? \`EARLIER GOALS OF THIS CONVERSATION:\\n\${earlierGoals.join('\\n')}\\n    ---\` : ''}
+    USER'S GOAL (in context of '\${targetFilePath}'): \${goal}
+    ---
+    CURRENT CODE OF '\${targetFilePath}':
+    ---
+    \${projectFiles[targetFilePath] || ''}
+    ---
+  \`;
+    const plan = JSON.parse(await llm.generateJson({ prompt, schema: planSchema }, requestOptions));
+    if (!plan || !Array.isArray(plan.steps) || plan.steps.length === 0) {
+        throw new Error("The model's plan has no steps.");
+    }
+    return {
+        thought: typeof plan.thought === 'string' ? plan.thought : '',
+        steps: plan.steps.slice(0, maxSteps).map(step => ({ title: String(step.title || 'Untitled step'), detail: String(step.detail || '') })),
+    };
+};
+
+const describeResult = (step) => {
+    if (step.result === 'rejected') return \`not applied: \${step.problems[0]}\`;
+    if (step.result === 'errors') return \`applied, then \${step.problems.length} problem\${step.problems.length === 1 ? '' : 's'}: \${step.problems.join(' | ')}\`;
+    return 'applied; the kernel ran without errors';
+};
+
+/**
+ * The goal evolveCode gets for one step of a run: the user's goal, the plan, the
+ * steps taken so far and what to do now.
+ * @param steps The run's log so far (see the bootloader's agent run).
+ * @param task { planIndex, problems, rejection }: planIndex is the next step of the plan.
+ *   \`problems\` found after the last step are fixed before the plan goes on; \`rejection\`
+ *   says why the previous attempt at this task was not applied.
+ */
+export const agentStepGoal = (goal, plan, steps, { planIndex, problems, rejection }) => {
+    const planLines = plan.steps.map((step, i) =>
+        \`\${i + 1}. \${i < planIndex ? '[done] ' : ''}\${!problems && i === planIndex ? '[now] ' : ''}\${step.title}: \${step.detail}\`);
+    const stepLines = steps.slice(-MAX_LOGGED_STEPS).map(step => \`Step \${step.number} (\${step.title}): \${step.summary ? \`\${step.summary} \` : ''}[\${describeResult(step)}]\`);
+    const task = problems
+        ? \`Fix these problems, which appeared after the last step, without undoing the plan's work:\\n\${problems.join('\\n')}\`
+        : \`Carry out step \${planIndex + 1} of the plan: \${plan.steps[planIndex].title}. \${plan.steps[planIndex].detail}\`;
+    return [
+        goal,
+        \`You are working towards this goal in steps. PLAN:\\n\${planLines.join('\\n')}\`,
+        stepLines.length > 0 ? \`STEPS TAKEN SO FAR:\\n\${stepLines.join('\\n')}\` : '',
+        \`NOW: \${task}\`,
+        rejection ? \`Your previous attempt at this was not applied: \${rejection}\` : '',
+    ].filter(Boolean).join('\\n\\n');
+};
+
+/**
+ * The errors the console recorded after the entry \`sinceId\`, for the model.
+ * The bootloader's own messages are left out; a failed build is reported separately.
+ */
+export const runtimeErrorsSince = (entries, sinceId) => {
+    const errors = entries
+        .filter(entry => entry.id > sinceId && entry.level === 'error' && entry.source !== 'bootloader')
+        .map(entry => {
+            const message = entry.message.length > MAX_ERROR_CHARS ? \`\${entry.message.slice(0, MAX_ERROR_CHARS)}…\` : entry.message;
+            return \`[\${entry.source}] \${message}\`;
+        });
+    return [...new Set(errors)];
+};
+`,
+  '/boot/lib/testing.ts': `// In-browser test runner for the project's own tests.
+// Files under /tests named *.test.tsx say what has to keep working while the
+// project evolves. They import describe, it, expect and render from '@test' and
+// are evaluated with the OS module loader, like the kernel: every test file with
+// a fresh set of modules, so one file's module state cannot leak into another.
+// Tests of the OS's own build also get \`files\` (the files under test) and the BIOS \`compiler\`.
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import { createModuleLoader, precompile } from './loader';
+
+// The specifier test files import the test API from.
+export const TEST_MODULE = '@test';
+
+const TEST_FILE = /^\\/tests\\/.+\\.test\\.tsx?$/;
+
+// A test that has not finished after this long fails.
+const TEST_TIMEOUT_MS = 5000;
+
+export const isTestFile = (path) => TEST_FILE.test(path);
+
+export const testFilesOf = (files) => Object.keys(files).filter(isTestFile).sort();
+
+const format = (value) => {
+    if (typeof value === 'function') return 'the function';
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch (e) {
+        return String(value);
+    }
+};
+
+const deepEqual = (a, b) => {
+    if (Object.is(a, b)) return true;
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false;
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+};
+
+// Each matcher returns whether it passed and what was expected, for the failure message.
+const MATCHERS = {
+    toBe: (actual, expected) => [Object.is(actual, expected), \`to be \${format(expected)}\`],
+    toEqual: (actual, expected) => [deepEqual(actual, expected), \`to equal \${format(expected)}\`],
+    toBeTruthy: (actual) => [!!actual, 'to be truthy'],
+    toBeFalsy: (actual) => [!actual, 'to be falsy'],
+    toBeNull: (actual) => [actual === null, 'to be null'],
+    toBeUndefined: (actual) => [actual === undefined, 'to be undefined'],
+    toBeDefined: (actual) => [actual !== undefined, 'to be defined'],
+    toBeGreaterThan: (actual, expected) => [actual > expected, \`to be greater than \${format(expected)}\`],
+    toBeLessThan: (actual, expected) => [actual < expected, \`to be less than \${format(expected)}\`],
+    toContain: (actual, item) => [actual != null && actual.includes(item), \`to contain \${format(item)}\`],
+    toHaveLength: (actual, length) => [actual != null && actual.length === length, \`to have length \${length}\`],
+    toMatch: (actual, pattern) => [
+        typeof actual === 'string' && (typeof pattern === 'string' ? actual.includes(pattern) : pattern.test(actual)),
+        \`to match \${String(pattern)}\`,
+    ],
+    // \`expected\` is part of the message or a pattern for it; without it any error passes.
+    toThrow: (actual, expected) => {
+        let thrown = null;
+        try {
+            actual();
+        } catch (e) {
+            thrown = e instanceof Error ? e : new Error(String(e));
+        }
+        const passed = thrown !== null && (expected === undefined ||
+            (typeof expected === 'string' ? thrown.message.includes(expected) : expected.test(thrown.message)));
+        return [passed, expected === undefined ? 'to throw' : \`to throw \${String(expected)}\`];
+    },
+};
+
+const expect = (actual) => {
+    const matchers = (negated) => {
+        const result = {};
+        for (const [name, matcher] of Object.entries(MATCHERS)) {
+            result[name] = (...args) => {
+                const [passed, expectation] = matcher(actual, ...args);
+                if (passed === negated) throw new Error(\`Expected \${format(actual)} \${negated ? 'not ' : ''}\${expectation}.\`);
+            };
+        }
+        return result;
+    };
+    return { ...matchers(false), not: matchers(true) };
+};
+
+// Renders into a detached element and returns helpers to query and click it.
+// The roots are unmounted after every test.
+const renderInto = (element, mounted) => {
+    const errors = [];
+    const container = document.createElement('div');
+    const root = ReactDOMClient.createRoot(container, {
+        onUncaughtError: (error) => errors.push(error),
+        onCaughtError: (error) => errors.push(error),
+    });
+    mounted.push(root);
+    const update = (next) => {
+        ReactDOM.flushSync(() => root.render(next));
+        if (errors.length > 0) throw errors[0];
+    };
+    update(element);
+
+    // The innermost elements whose text contains \`text\`.
+    const queryAllByText = (text) => [...container.querySelectorAll('*')].filter(el =>
+        el.textContent.includes(text) && ![...el.children].some(child => child.textContent.includes(text)));
+    const getByText = (text) => {
+        const [el] = queryAllByText(text);
+        if (!el) throw new Error(\`No element contains the text \${format(text)}.\`);
+        return el;
+    };
+    return {
+        container,
+        getByText,
+        queryByText: (text) => queryAllByText(text)[0] || null,
+        queryAllByText,
+        click: (target) => {
+            const el = typeof target === 'string' ? getByText(target) : target;
+            ReactDOM.flushSync(() => el.click());
+            if (errors.length > 0) throw errors[0];
+        },
+        rerender: update,
+        unmount: () => root.unmount(),
+    };
+};
+
+// The '@test' module of one test file, and the tests it registers.
+const createSuite = (files, compiler) => {
+    const tests = [];
+    const scopes = [{ name: null, beforeEach: [], afterEach: [] }];
+    const mounted = [];
+    const api = {
+        describe: (name, body) => {
+            scopes.push({ name, beforeEach: [], afterEach: [] });
+            try {
+                body();
+            } finally {
+                scopes.pop();
+            }
+        },
+        it: (name, fn) => {
+            const names = [...scopes.slice(1).map(scope => scope.name), name];
+            tests.push({ name: names.join(' › '), fn, scopes: scopes.slice() });
+        },
+        beforeEach: (fn) => scopes[scopes.length - 1].beforeEach.push(fn),
+        afterEach: (fn) => scopes[scopes.length - 1].afterEach.push(fn),
+        expect,
+        render: (element) => renderInto(element, mounted),
+        files,
+        compiler,
+    };
+    api.test = api.it;
+    const cleanup = () => mounted.splice(0).forEach(root => root.unmount());
+    return { api, tests, cleanup };
+};
+
+const withTimeout = (promise, ms) => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(\`The test did not finish within \${ms / 1000}s.\`)), ms);
+    promise.then(
+        (value) => { clearTimeout(timer); resolve(value); },
+        (error) => { clearTimeout(timer); reject(error); }
+    );
+});
+
+const runTestFile = async (files, path, compiler) => {
+    const suite = createSuite(files, compiler);
+    try {
+        const externals = { react: React, 'react-dom': ReactDOM, 'react-dom/client': ReactDOMClient, [TEST_MODULE]: suite.api };
+        createModuleLoader(files, externals)(path);
+    } catch (e) {
+        return { path, error: e.message, tests: [] };
+    }
+    const results = [];
+    for (const test of suite.tests) {
+        let error = null;
+        try {
+            for (const hook of test.scopes.flatMap(scope => scope.beforeEach)) await hook();
+            await withTimeout(Promise.resolve().then(test.fn), TEST_TIMEOUT_MS);
+        } catch (e) {
+            error = e instanceof Error ? e.message : String(e);
+        }
+        try {
+            for (const hook of test.scopes.flatMap(scope => scope.afterEach).reverse()) await hook();
+        } catch (e) {
+            error = error || \`afterEach: \${e instanceof Error ? e.message : String(e)}\`;
+        }
+        suite.cleanup();
+        results.push({ name: test.name, status: error ? 'failed' : 'passed', error });
+    }
+    return { path, error: null, tests: results };
+};
+
+/**
+ * Runs the test files among \`files\`, one after the other.
+ * @param compiler The BIOS compiler; the test files and what they import are compiled with it first.
+ * @returns { files: [{ path, error, tests: [{ name, status: 'passed' | 'failed', error }] }], passed, failed }.
+ *   A file's \`error\` is set when it could not be loaded; \`failed\` counts those files too.
+ */
+export const runTests = async (files, compiler) => {
+    const paths = testFilesOf(files);
+    await precompile(files, compiler, paths);
+    const results = [];
+    for (const path of paths) results.push(await runTestFile(files, path, compiler));
+    const tests = results.flatMap(file => file.tests);
+    return {
+        files: results,
+        passed: tests.filter(test => test.status === 'passed').length,
+        failed: tests.filter(test => test.status === 'failed').length + results.filter(file => file.error).length,
+    };
+};
+
+const testKey = (path, name) => \`\${path} › \${name}\`;
+
+/**
+ * The tests that passed in \`before\` and fail in \`after\`, described for the model and the user.
+ * Tests of a file that no longer loads count as failing; tests that were removed do not.
+ * @param includeNew Also report failing tests and test files that \`before\` did not have.
+ */
+export const testRegressions = (before, after, { includeNew = false } = {}) => {
+    const passedBefore = new Set();
+    const knownBefore = new Set();
+    for (const file of before.files) {
+        knownBefore.add(file.path);
+        for (const test of file.tests) {
+            knownBefore.add(testKey(file.path, test.name));
+            if (test.status === 'passed') passedBefore.add(testKey(file.path, test.name));
+        }
+    }
+    const problems = [];
+    for (const file of after.files) {
+        if (file.error) {
+            const hadPassing = before.files.some(old => old.path === file.path && old.tests.some(test => test.status === 'passed'));
+            if (hadPassing || (includeNew && !knownBefore.has(file.path))) {
+                problems.push(\`Test file \${file.path} failed to load: \${file.error}\`);
+            }
+            continue;
+        }
+        for (const test of file.tests) {
+            const key = testKey(file.path, test.name);
+            if (test.status === 'failed' && (passedBefore.has(key) || (includeNew && !knownBefore.has(key)))) {
+                problems.push(\`Test failed: \${key}: \${test.error}\`);
+            }
+        }
+    }
+    return problems;
+};
+`,
+  '/boot/lib/patch.ts': `// Search/replace edits for evolutions.
+// Rewriting a whole file costs as many tokens as the file has, and long responses
+// get cut off or quietly lose code. A PATCH action lists edits instead: a piece of
+// the current file to find, and what it becomes. Models do not always copy code
+// exactly, so an edit that does not match literally is matched again by lines,
+// with whitespace ignored and then with a few lines allowed to differ.
+
+// A loose match needs this share of the edit's lines to agree with the file...
+const FUZZY_MIN_SIMILARITY = 0.8;
+// ...and at least this many lines, so that a short edit cannot land in the wrong place.
+const FUZZY_MIN_LINES = 3;
+
+const normalizeLine = (line) => line.trim().replace(/\\s+/g, ' ');
+
+const indentOf = (line) => line.match(/^\\s*/)[0];
+
+const lineAt = (text, index) => text.slice(0, index).split('\\n').length;
+
+// Blank lines around an edit say nothing about where it belongs.
+const trimBlankLines = (lines) => {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && lines[start].trim() === '') start++;
+    while (end > start && lines[end - 1].trim() === '') end--;
+    return lines.slice(start, end);
+};
+
+const occurrences = (text, search) => {
+    const found = [];
+    for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + 1)) found.push(i);
+    return found;
+};
+
+// For every run of file lines as long as the edit: how many of its lines agree.
+const scoreWindows = (sourceLines, searchLines) => {
+    const wanted = searchLines.map(normalizeLine);
+    const windows = [];
+    for (let start = 0; start + wanted.length <= sourceLines.length; start++) {
+        let equal = 0;
+        wanted.forEach((line, i) => { if (normalizeLine(sourceLines[start + i]) === line) equal++; });
+        windows.push({ start, equal });
+    }
+    return windows;
+};
+
+// The replacement, moved to the indentation the matched lines have in the file.
+const reindent = (replaceLines, searchLines, matchedLines) => {
+    const from = indentOf(searchLines[0]);
+    const to = indentOf(matchedLines[0]);
+    if (from === to) return replaceLines;
+    return replaceLines.map(line => (line.trim() !== '' && line.startsWith(from) ? to + line.slice(from.length) : line));
+};
+
+const applyEdit = (source, edit) => {
+    if (!edit || typeof edit.search !== 'string' || typeof edit.replace !== 'string') {
+        return { problem: "'search' and 'replace' must both be strings." };
+    }
+    const { search, replace } = edit;
+    if (search.trim() === '') {
+        return { problem: "'search' is empty. Quote the lines to change, or use UPDATE to write the whole file." };
+    }
+
+    const exact = occurrences(source, search);
+    if (exact.length === 1) {
+        return { code: source.slice(0, exact[0]) + replace + source.slice(exact[0] + search.length), match: 'exact', line: lineAt(source, exact[0]) };
+    }
+    if (exact.length > 1) {
+        return { problem: \`'search' occurs \${exact.length} times (lines \${exact.map(i => lineAt(source, i)).join(', ')}). Include more of the surrounding lines so that it matches one place.\` };
+    }
+
+    const sourceLines = source.split('\\n');
+    const searchLines = trimBlankLines(search.split('\\n'));
+    const windows = scoreWindows(sourceLines, searchLines);
+    const best = windows.reduce((max, window) => Math.max(max, window.equal), 0);
+    const bestWindows = windows.filter(window => window.equal === best);
+    const places = bestWindows.map(window => window.start + 1).join(', ');
+
+    let match = null;
+    if (best === searchLines.length) {
+        if (bestWindows.length > 1) {
+            return { problem: \`'search' matches \${bestWindows.length} places when whitespace is ignored (lines \${places}). Include more of the surrounding lines so that it matches one place.\` };
+        }
+        match = 'whitespace';
+    } else if (searchLines.length >= FUZZY_MIN_LINES && best / searchLines.length >= FUZZY_MIN_SIMILARITY && bestWindows.length === 1) {
+        match = 'fuzzy';
+    }
+    if (!match) {
+        const closest = best > 0 && bestWindows.length === 1
+            ? \` The closest place, line \${places}, has \${best} of its \${searchLines.length} lines.\`
+            : '';
+        return { problem: \`'search' was not found in the file.\${closest} Copy the lines exactly from the current code.\` };
+    }
+
+    const { start } = bestWindows[0];
+    const matchedLines = sourceLines.slice(start, start + searchLines.length);
+    const replaceLines = reindent(trimBlankLines(replace.split('\\n')), searchLines, matchedLines);
+    const lines = [...sourceLines.slice(0, start), ...replaceLines, ...sourceLines.slice(start + searchLines.length)];
+    return { code: lines.join('\\n'), match, line: start + 1 };
+};
+
+/**
+ * Applies a PATCH action's edits, in order, to the source of a file; each edit
+ * sees the result of the ones before it. An edit is matched exactly if it can be.
+ * Otherwise it is matched line by line with whitespace ignored ('whitespace'), and
+ * failing that at the one place where nearly all of its lines agree ('fuzzy').
+ * An edit that fits several places equally well does not match.
+ * @returns { code, results }. \`code\` is null if any edit did not match. \`results\`
+ *   has, per edit, { match: 'exact' | 'whitespace' | 'fuzzy', line } or { problem }.
+ */
+export const applyEdits = (source, edits) => {
+    let code = source;
+    const results = edits.map(edit => {
+        const outcome = applyEdit(code, edit);
+        if (outcome.problem) return { problem: outcome.problem };
+        code = outcome.code;
+        return { match: outcome.match, line: outcome.line };
+    });
+    return { code: results.some(result => result.problem) ? null : code, results };
+};
+`,
+  '/boot/lib/progress.ts': `
+// Live progress for streaming evolutions.
+// While the model's response is still arriving it is not valid JSON yet, so the
+// fields worth showing (its reasoning and the files it is about to touch) are
+// picked out of the partial text instead of parsing it.
+
+// Matches the body of a JSON string, which may still be unterminated.
+const STRING_BODY = '((?:[^"\\\\\\\\]|\\\\\\\\.)*)';
+
+const fieldPattern = (name, flags = '') => new RegExp(\`"\${name}"\\\\s*:\\\\s*"\${STRING_BODY}\`, flags);
+
+// Decodes a JSON string body that may have been cut off in the middle of an escape sequence.
+const decode = (body) => {
+    for (let end = body.length; end >= Math.max(0, body.length - 6); end--) {
+        try {
+            return JSON.parse(\`"\${body.slice(0, end)}"\`);
+        } catch (e) {
+            // Drop a character of the incomplete escape and try again.
+        }
+    }
+    return body;
+};
+
+/**
+ * Reads what has arrived so far of an evolution response.
+ * @returns The (possibly incomplete) thought and summary, and the actions whose file path has started streaming.
+ */
+export const readPartialEvolution = (text) => {
+    const thought = text.match(fieldPattern('thought'));
+    const summary = text.match(fieldPattern('summary'));
+    const actions = [...text.matchAll(fieldPattern('action', 'g'))].map(m => decode(m[1]));
+    const files = [...text.matchAll(fieldPattern('filePath', 'g'))].map((m, i) => ({
+        action: actions[i] || '',
+        filePath: decode(m[1]),
+    }));
+    return {
+        thought: thought ? decode(thought[1]) : '',
+        summary: summary ? decode(summary[1]) : '',
+        files,
+        receivedChars: text.length,
+    };
+};
+`,
+  '/components/FileExplorer.tsx': `
+function DeleteIcon({ className }) {
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.134-2.033-2.134H8.716c-1.123 0-2.033.954-2.033 2.134v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+        </svg>
+    );
+}
+
+function FileExplorer({ files, activeFile, onFileSelect, onFileCreate, onFileDelete }) {
+    const filePaths = Object.keys(files).sort((a,b) => {
+      // Sort boot files to the top
+      if (a.startsWith('/boot/') && !b.startsWith('/boot/')) return -1;
+      if (!a.startsWith('/boot/') && b.startsWith('/boot/')) return 1;
+      return a.localeCompare(b);
+    });
+
+    return (
+        <div className="p-2 flex flex-col h-full">
+            <div className="flex items-center justify-between px-2 mb-1">
+                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Project Files</h2>
+                <button 
+                    onClick={onFileCreate}
+                    className="text-slate-400 hover:text-slate-100"
+                    title="Create New File"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m3.75 9v6m3-3H9m1.5-12H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+                    </svg>
+                </button>
+            </div>
+            <ul className="space-y-1 flex-grow overflow-y-auto">
+                {filePaths.map(path => (
+                    <li key={path} className="group flex items-center">
+                        <button 
+                            onClick={() => onFileSelect(path)}
+                            className={\`w-full text-left px-3 py-1.5 text-sm rounded-md transition-colors flex-grow \${activeFile === path ? 'bg-purple-500/20 text-purple-200' : 'text-slate-300 hover:bg-slate-700/50'}\`}
+                        >
+                            {path.startsWith('/boot/') && '🔴 '}{path.substring(path.lastIndexOf('/') + 1)}
+                        </button>
+                        {!path.startsWith('/boot/') && (
+                             <button 
+                                onClick={(e) => {e.stopPropagation(); onFileDelete(path);}}
+                                className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 p-1 flex-shrink-0"
+                                title={\`Delete \${path}\`}
+                            >
+                                <DeleteIcon className="w-4 h-4" />
+                            </button>
                         )}
                     </li>
                 ))}
@@ -433,7 +2563,9 @@ function FileExplorer({ files, activeFile, onFileSelect, onFileCreate, onFileDel
 export default FileExplorer;
   `,
   '/components/Editor.tsx': `
-function Editor({ filePath, content, onContentChange }) {
+// \`location\` ({ line, column }, line 1-based) is selected and scrolled into view
+// whenever a new one is passed, e.g. when an error in this file is opened from the overlay.
+function Editor({ filePath, content, onContentChange, location }) {
     const textAreaRef = React.useRef(null);
     const lineNumbersRef = React.useRef(null);
 
@@ -447,6 +2579,21 @@ function Editor({ filePath, content, onContentChange }) {
         syncScroll();
     }, [content, filePath, syncScroll]);
 
+    React.useEffect(() => {
+        const textArea = textAreaRef.current;
+        if (!location || !textArea) return;
+        const contentLines = textArea.value.split('\\n');
+        const lineIndex = Math.max(0, Math.min(location.line, contentLines.length) - 1);
+        const offset = contentLines.slice(0, lineIndex).reduce((sum, line) => sum + line.length + 1, 0)
+            + Math.min(location.column || 0, contentLines[lineIndex].length);
+        textArea.focus();
+        textArea.setSelectionRange(offset, offset);
+        // Leave a few lines of context above the location.
+        const lineHeight = parseFloat(getComputedStyle(textArea).lineHeight) || 20;
+        textArea.scrollTop = Math.max(0, (lineIndex - 5) * lineHeight);
+        syncScroll();
+    }, [location, syncScroll]);
+
     const lines = React.useMemo(() => content.split('\\n').length, [content]);
     const lineNumbers = React.useMemo(() => Array.from({ length: lines }, (_, i) => i + 1).join('\\n'), [lines]);
 
@@ -479,6 +2626,1140 @@ function Editor({ filePath, content, onContentChange }) {
 }
 export default Editor;
   `,
+  '/components/ChatPanel.tsx': `
+import EvolveIcon from './EvolveIcon';
+import { activeSessionOf, createSession, deleteSession, latestLeafOf, siblingsOf, threadOf, updateSession } from '../lib/sessions';
+
+const STATUS_STYLES = {
+    proposed: 'text-blue-300',
+    applied: 'text-green-400',
+    discarded: 'text-slate-500',
+    failed: 'text-red-400',
+};
+
+// The evolution chat. Goals are sent within the active session, so they can build
+// on the earlier turns of its thread; any earlier message can be branched from.
+// Session navigation is handled here, evolving is up to onSend. The agent toggle
+// is only offered when onAgentModeChange is set.
+function ChatPanel({ sessions, onSessionsChange, activeFile, goal, onGoalChange, onSend, isLoading, agentMode, onAgentModeChange }) {
+    const session = activeSessionOf(sessions);
+    const thread = session ? threadOf(session) : [];
+    const listRef = React.useRef(null);
+
+    // Follow new messages.
+    React.useEffect(() => {
+        if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+    }, [session && session.headId, session && session.messages.length]);
+
+    const moveHead = (headId) => onSessionsChange(updateSession(sessions, session.id, s => ({ ...s, headId })));
+
+    // A model message is continued from directly. A goal is asked again differently:
+    // the branch starts before it, with its text to edit.
+    const handleBranch = (message) => {
+        if (message.role === 'user') {
+            moveHead(message.parentId);
+            onGoalChange(message.text);
+        } else {
+            moveHead(message.id);
+        }
+    };
+
+    const handleDeleteSession = () => {
+        if (window.confirm(\`Delete the session '\${session.title}'?\`)) {
+            onSessionsChange(deleteSession(sessions, session.id));
+        }
+    };
+
+    // The head already has a reply, so the next goal is an alternative to it.
+    const isBranching = !!session && session.messages.some(message => message.parentId === session.headId);
+
+    return (
+        <div className="bg-slate-800/80 border-t border-slate-700 p-3 space-y-2">
+            <div className="flex items-center gap-2 text-xs">
+                <label htmlFor="chat-session" className="font-bold text-slate-400 uppercase tracking-wider">Session</label>
+                <select
+                    id="chat-session"
+                    value={sessions.activeId || ''}
+                    onChange={(e) => onSessionsChange({ ...sessions, activeId: e.target.value || null })}
+                    className="flex-grow min-w-0 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-200">
+                    {!session && <option value="">No session yet</option>}
+                    {sessions.sessions.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+                </select>
+                <button onClick={() => onSessionsChange(createSession(sessions))} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200">
+                    New
+                </button>
+                {session && (
+                    <button onClick={handleDeleteSession} className="px-2 py-1 rounded text-red-300 hover:bg-red-900/40">
+                        Delete
+                    </button>
+                )}
+            </div>
+            {thread.length > 0 && (
+                <ul ref={listRef} className="max-h-56 overflow-y-auto space-y-1 text-sm">
+                    {thread.map(message => {
+                        const siblings = siblingsOf(session, message);
+                        const index = siblings.indexOf(message);
+                        return (
+                            <li key={message.id} className={\`group rounded-md px-2 py-1 \${message.role === 'user' ? 'bg-slate-700/60 text-slate-100' : 'text-slate-300'}\`}>
+                                <div className="flex items-start gap-2">
+                                    <span className="flex-grow whitespace-pre-wrap">
+                                        {message.role === 'user' && <span className="text-xs text-slate-500 font-mono mr-2">{message.targetFilePath}</span>}
+                                        {message.text}
+                                        {message.status && <span className={\`ml-2 text-xs \${STATUS_STYLES[message.status]}\`}>{message.status}</span>}
+                                    </span>
+                                    {siblings.length > 1 && (
+                                        <span className="flex-shrink-0 text-xs text-slate-500" title="Branches at this message">
+                                            <button onClick={() => moveHead(latestLeafOf(session, siblings[index - 1]).id)} disabled={index === 0} className="px-1 disabled:opacity-30">‹</button>
+                                            {index + 1}/{siblings.length}
+                                            <button onClick={() => moveHead(latestLeafOf(session, siblings[index + 1]).id)} disabled={index === siblings.length - 1} className="px-1 disabled:opacity-30">›</button>
+                                        </span>
+                                    )}
+                                    <button
+                                        onClick={() => handleBranch(message)}
+                                        title={message.role === 'user' ? 'Ask this differently in a new branch' : 'Continue from here in a new branch'}
+                                        className="flex-shrink-0 text-xs text-purple-300 hover:text-purple-200 opacity-0 group-hover:opacity-100 focus:opacity-100">
+                                        Branch
+                                    </button>
+                                </div>
+                                {message.diff && (
+                                    <details className="mt-1">
+                                        <summary className="cursor-pointer text-xs text-slate-500">Applied diff</summary>
+                                        <pre className="mt-1 text-xs font-mono text-slate-400 whitespace-pre-wrap max-h-40 overflow-y-auto">{message.diff}</pre>
+                                    </details>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            {isBranching && <p className="text-xs text-purple-300">The next goal starts a new branch here.</p>}
+            <label htmlFor="goal" className="block text-sm font-medium text-slate-300">Evolution Goal for {activeFile}</label>
+            <div className="flex gap-2">
+                <input
+                    id="goal"
+                    type="text"
+                    value={goal}
+                    onChange={(e) => onGoalChange(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && goal.trim() && !isLoading) onSend(); }}
+                    placeholder={thread.length > 0 ? 'Follow up on the conversation...' : 'Describe how to evolve the project...'}
+                    className="flex-grow bg-slate-700 border border-slate-600 rounded-md p-2 text-slate-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition"
+                />
+                {onAgentModeChange && (
+                    <label className="flex items-center gap-1 text-sm text-slate-300 cursor-pointer" title="Plan the goal, then apply, boot and fix it step by step without a review">
+                        <input type="checkbox" checked={agentMode} onChange={(e) => onAgentModeChange(e.target.checked)} />
+                        Agent
+                    </label>
+                )}
+                <button
+                    onClick={onSend}
+                    disabled={!goal.trim() || isLoading}
+                    className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-md transition-all duration-300 disabled:bg-purple-900 disabled:cursor-not-allowed"
+                >
+                    {isLoading ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div> : <EvolveIcon className="w-5 h-5"/>}
+                    Evolve
+                </button>
+            </div>
+        </div>
+    );
+}
+export default ChatPanel;
+`,
+  '/components/TestPanel.tsx': `// The project's tests: the files under /tests named *.test.tsx, run in the page by
+// the OS (see /boot/lib/testing.ts). Shows the last run; a file opens in the editor.
+function TestPanel({ report, isRunning, onRun, onOpenFile }) {
+    const [isOpen, setIsOpen] = React.useState(false);
+
+    const handleRun = () => {
+        setIsOpen(true);
+        onRun();
+    };
+
+    return (
+        <div className="border-t border-slate-700 bg-slate-950/60 text-xs">
+            <div className="flex items-center gap-2 px-3 py-1.5">
+                <button onClick={() => setIsOpen(open => !open)} className="font-bold text-slate-300 hover:text-white">
+                    {isOpen ? '▾' : '▸'} Tests
+                </button>
+                {report && !report.error && (
+                    <React.Fragment>
+                        <span className="text-green-400">{report.passed} passed</span>
+                        {report.failed > 0 && <span className="text-red-400">{report.failed} failed</span>}
+                    </React.Fragment>
+                )}
+                <button
+                    onClick={handleRun}
+                    disabled={isRunning}
+                    className="ml-auto px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200">
+                    {isRunning ? 'Running...' : 'Run tests'}
+                </button>
+            </div>
+            {isOpen && (
+                <ul className="max-h-48 overflow-y-auto font-mono">
+                    {!report && <li className="px-3 py-1 text-slate-500">Not run yet.</li>}
+                    {report && report.error && <li className="px-3 py-1 text-red-300">The tests could not be run: {report.error}</li>}
+                    {report && !report.error && report.files.length === 0 && (
+                        <li className="px-3 py-1 text-slate-500">No test files. Add /tests/*.test.tsx files to test the project.</li>
+                    )}
+                    {report && report.files.map(file => (
+                        <li key={file.path} className="border-t border-slate-800/60 px-3 py-1">
+                            <button onClick={() => onOpenFile(file.path)} className="text-slate-300 hover:text-white hover:underline">
+                                {file.path}
+                            </button>
+                            {file.error && <div className="text-red-300 whitespace-pre-wrap break-all">Failed to load: {file.error}</div>}
+                            <ul>
+                                {file.tests.map(test => (
+                                    <li key={test.name} className={test.status === 'passed' ? 'text-green-300' : 'text-red-300'}>
+                                        {test.status === 'passed' ? '✓' : '✗'} {test.name}
+                                        {test.error && <div className="pl-4 whitespace-pre-wrap break-all text-red-200/80">{test.error}</div>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+export default TestPanel;
+`,
+  '/components/ConsolePanel.tsx': `
+// The developer console. Shows what the page logged, as captured by the BIOS,
+// with the source of every entry: the BIOS, the bootloader, a VFS module or the
+// preview. Errors can be selected and sent to the evolution goal.
+const LEVELS = ['error', 'warn', 'info', 'log', 'debug'];
+
+const LEVEL_STYLES = {
+    error: 'text-red-300 bg-red-950/30',
+    warn: 'text-yellow-200 bg-yellow-950/20',
+    info: 'text-blue-300',
+    log: 'text-slate-300',
+    debug: 'text-slate-500',
+};
+
+function ConsolePanel({ devConsole, onSendToGoal }) {
+    const [entries, setEntries] = React.useState(() => (devConsole ? devConsole.getEntries() : []));
+    const [isOpen, setIsOpen] = React.useState(false);
+    const [levels, setLevels] = React.useState(() => new Set(LEVELS));
+    const [search, setSearch] = React.useState('');
+    // Ids of the errors to send to the goal.
+    const [selected, setSelected] = React.useState(() => new Set());
+    const listRef = React.useRef(null);
+
+    React.useEffect(() => {
+        if (!devConsole) return;
+        setEntries(devConsole.getEntries());
+        return devConsole.subscribe(() => setEntries(devConsole.getEntries()));
+    }, [devConsole]);
+
+    // Follow new output, like a terminal.
+    React.useEffect(() => {
+        if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+    }, [entries, isOpen]);
+
+    const counts = {};
+    for (const entry of entries) counts[entry.level] = (counts[entry.level] || 0) + 1;
+
+    const query = search.trim().toLowerCase();
+    const visibleEntries = entries.filter(entry =>
+        levels.has(entry.level) &&
+        (!query || entry.message.toLowerCase().includes(query) || entry.source.toLowerCase().includes(query)));
+    const selectedErrors = entries.filter(entry => selected.has(entry.id));
+
+    const toggleLevel = (level) => setLevels(current => {
+        const next = new Set(current);
+        if (next.has(level)) next.delete(level); else next.add(level);
+        return next;
+    });
+
+    const toggleSelected = (id) => setSelected(current => {
+        const next = new Set(current);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const handleSendToGoal = () => {
+        // The goal is a single line: the first line of each message carries the error itself.
+        onSendToGoal(selectedErrors.map(entry => \`[\${entry.source}] \${entry.message.split('\\n')[0]}\`).join('; '));
+        setSelected(new Set());
+    };
+
+    const handleClear = () => {
+        setSelected(new Set());
+        if (devConsole) devConsole.clear();
+    };
+
+    return (
+        <div className="border-t border-slate-700 bg-slate-950/60 text-xs">
+            <div className="flex items-center gap-2 px-3 py-1.5">
+                <button onClick={() => setIsOpen(open => !open)} className="font-bold text-slate-300 hover:text-white">
+                    {isOpen ? '▾' : '▸'} Console
+                </button>
+                {counts.error > 0 && <span className="text-red-400">{counts.error} error{counts.error === 1 ? '' : 's'}</span>}
+                {counts.warn > 0 && <span className="text-yellow-400">{counts.warn} warning{counts.warn === 1 ? '' : 's'}</span>}
+                {isOpen && (
+                    <React.Fragment>
+                        <div className="flex gap-1 ml-2">
+                            {LEVELS.map(level => (
+                                <button
+                                    key={level}
+                                    onClick={() => toggleLevel(level)}
+                                    aria-pressed={levels.has(level)}
+                                    className={\`px-2 py-0.5 rounded \${levels.has(level) ? 'bg-slate-600 text-slate-100' : 'bg-slate-800 text-slate-500'}\`}>
+                                    {level} {counts[level] || 0}
+                                </button>
+                            ))}
+                        </div>
+                        <input
+                            type="search"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Filter"
+                            className="flex-grow min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-slate-200"
+                        />
+                        <button
+                            onClick={handleSendToGoal}
+                            disabled={selectedErrors.length === 0}
+                            title="Add the selected errors to the evolution goal"
+                            className="px-2 py-0.5 rounded bg-purple-700 hover:bg-purple-600 disabled:opacity-40 text-white">
+                            Send {selectedErrors.length || ''} to goal
+                        </button>
+                        <button onClick={handleClear} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200">
+                            Clear
+                        </button>
+                    </React.Fragment>
+                )}
+            </div>
+            {isOpen && (
+                <ul ref={listRef} className="max-h-48 overflow-y-auto font-mono">
+                    {visibleEntries.map(entry => (
+                        <li key={entry.id} className={\`flex gap-2 px-3 py-0.5 border-t border-slate-800/60 \${LEVEL_STYLES[entry.level]}\`}>
+                            {entry.level === 'error' ? (
+                                <input
+                                    type="checkbox"
+                                    checked={selected.has(entry.id)}
+                                    onChange={() => toggleSelected(entry.id)}
+                                    aria-label="Select to send to the goal"
+                                />
+                            ) : <span className="w-[13px] flex-shrink-0" />}
+                            <span className="flex-shrink-0 text-slate-500" title={entry.source}>{entry.source}</span>
+                            <span className="whitespace-pre-wrap break-all">{entry.message}</span>
+                        </li>
+                    ))}
+                    {visibleEntries.length === 0 && <li className="px-3 py-1 text-slate-500">No entries.</li>}
+                </ul>
+            )}
+        </div>
+    );
+}
+export default ConsolePanel;
+`,
+  '/components/Timeline.tsx': `
+// Shows the project's history as a list of commits, newest first.
+// Clicking an entry moves the whole project to the state right after it.
+function Timeline({ history, onUndo, onRedo, onCheckout }) {
+    const entries = history ? history.entries : [];
+    const cursor = history ? history.cursor : 0;
+
+    if (!history || !onCheckout) {
+        return null;
+    }
+
+    const describeChanges = (changes) => Object.keys(changes)
+        .map(path => path.substring(path.lastIndexOf('/') + 1))
+        .join(', ');
+
+    const rows = entries.map((entry, index) => {
+        const isCurrent = index + 1 === cursor;
+        const isUndone = index + 1 > cursor;
+        return (
+            <li key={entry.id}>
+                <button
+                    onClick={() => onCheckout(index + 1)}
+                    className={\`w-full text-left px-3 py-1.5 rounded-md transition-colors \${isCurrent ? 'bg-purple-500/20 text-purple-200' : 'text-slate-300 hover:bg-slate-700/50'} \${isUndone ? 'opacity-50' : ''}\`}
+                    title={Object.keys(entry.changes).join('\\n')}
+                >
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{entry.label}</span>
+                        <span className="text-xs text-slate-500 flex-shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                    </div>
+                    <div className="text-xs text-slate-500 truncate">{describeChanges(entry.changes)}</div>
+                </button>
+            </li>
+        );
+    }).reverse();
+
+    return (
+        <div className="p-2 flex flex-col border-t border-slate-800 max-h-72">
+            <div className="flex items-center justify-between px-2 mb-1">
+                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider">History</h2>
+                <div className="flex gap-1">
+                    <button
+                        onClick={onUndo}
+                        disabled={cursor === 0}
+                        className="text-xs px-2 py-0.5 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                    >
+                        Undo
+                    </button>
+                    <button
+                        onClick={onRedo}
+                        disabled={cursor === entries.length}
+                        className="text-xs px-2 py-0.5 rounded text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                    >
+                        Redo
+                    </button>
+                </div>
+            </div>
+            <ul className="space-y-1 overflow-y-auto">
+                {rows}
+                <li>
+                    <button
+                        onClick={() => onCheckout(0)}
+                        className={\`w-full text-left px-3 py-1.5 text-sm rounded-md transition-colors \${cursor === 0 ? 'bg-purple-500/20 text-purple-200' : 'text-slate-400 hover:bg-slate-700/50'}\`}
+                    >
+                        Initial state
+                    </button>
+                </li>
+            </ul>
+        </div>
+    );
+}
+export default Timeline;
+  `,
+  '/components/EvolutionReview.tsx': `
+import { diffLines, toSegments, applyHunks } from '../lib/diff';
+
+// Lines of unchanged context shown around each hunk.
+const CONTEXT_LINES = 3;
+
+const isBootFile = (path) => path.startsWith('/boot/');
+
+const RELATION_LABELS = {
+    target: 'target',
+    dependency: 'imported',
+    dependent: 'importer',
+};
+
+// How a PATCH edit was matched when it did not match the file exactly.
+const LOOSE_MATCH_LABELS = {
+    whitespace: 'matched with different whitespace',
+    fuzzy: 'matched approximately; check it in the diff',
+};
+
+function describeChange(change) {
+    if (change.before === null) return 'created';
+    if (change.after === null) return 'deleted';
+    return 'modified';
+}
+
+function DiffView({ segments, rejectedHunks, onToggleHunk }) {
+    const rows = [];
+    segments.forEach((segment, index) => {
+        if (segment.type === 'equal') {
+            const lines = segment.ops.map(op => op.text);
+            const showHead = index > 0 ? lines.slice(0, CONTEXT_LINES) : [];
+            const showTail = index < segments.length - 1 ? lines.slice(-CONTEXT_LINES) : [];
+            if (lines.length <= showHead.length + showTail.length) {
+                lines.forEach((line, i) => rows.push(<div key={index + '-' + i} className="text-slate-400">{'  ' + line}</div>));
+                return;
+            }
+            showHead.forEach((line, i) => rows.push(<div key={index + '-h' + i} className="text-slate-400">{'  ' + line}</div>));
+            rows.push(
+                <div key={index + '-gap'} className="text-slate-600 italic py-0.5">
+                    {'… ' + (lines.length - showHead.length - showTail.length) + ' unchanged lines …'}
+                </div>
+            );
+            showTail.forEach((line, i) => rows.push(<div key={index + '-t' + i} className="text-slate-400">{'  ' + line}</div>));
+            return;
+        }
+
+        const rejected = rejectedHunks.includes(segment.hunkIndex);
+        rows.push(
+            <div key={index} className={rejected ? 'opacity-40' : ''}>
+                <label className="flex items-center gap-2 text-xs text-slate-400 bg-slate-800 px-1 mt-1 cursor-pointer">
+                    <input type="checkbox" checked={!rejected} onChange={() => onToggleHunk(segment.hunkIndex)} />
+                    Hunk {segment.hunkIndex + 1}
+                </label>
+                {segment.ops.map((op, i) => (
+                    <div key={i} className={op.type === 'add' ? 'bg-green-900/40 text-green-300' : 'bg-red-900/40 text-red-300'}>
+                        {(op.type === 'add' ? '+ ' : '- ') + op.text}
+                    </div>
+                ))}
+            </div>
+        );
+    });
+    return <pre className="text-xs font-mono whitespace-pre overflow-x-auto p-2 bg-slate-950/60">{rows}</pre>;
+}
+
+// Modal shown by the kernel while an evolution proposal is waiting to be applied.
+// Every file can be accepted or rejected as a whole, individual hunks can be
+// toggled, and the proposed content can be edited before it is committed.
+function EvolutionReview({ evolution, onApply, onDiscard }) {
+    const paths = React.useMemo(() => Object.keys(evolution.changes).sort(), [evolution]);
+    const [rejectedFiles, setRejectedFiles] = React.useState([]);
+    const [rejectedHunks, setRejectedHunks] = React.useState({});
+    const [edited, setEdited] = React.useState({});
+    const [editingPath, setEditingPath] = React.useState(null);
+
+    const proposedContent = (path) => edited.hasOwnProperty(path) ? edited[path] : evolution.changes[path].after;
+
+    const segmentsFor = (path) => toSegments(diffLines(evolution.changes[path].before || '', proposedContent(path) || ''));
+
+    const toggleFile = (path) => {
+        setRejectedFiles(prev => prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]);
+    };
+
+    const toggleHunk = (path, hunkIndex) => {
+        setRejectedHunks(prev => {
+            const current = prev[path] || [];
+            const next = current.includes(hunkIndex) ? current.filter(i => i !== hunkIndex) : [...current, hunkIndex];
+            return { ...prev, [path]: next };
+        });
+    };
+
+    const editFile = (path, content) => {
+        setEdited(prev => ({ ...prev, [path]: content }));
+        // Hunk indices no longer line up with the edited proposal.
+        setRejectedHunks(prev => ({ ...prev, [path]: [] }));
+    };
+
+    const handleApply = () => {
+        const accepted = {};
+        for (const path of paths) {
+            if (rejectedFiles.includes(path)) continue;
+            const after = proposedContent(path);
+            if (after === null) {
+                accepted[path] = null;
+                continue;
+            }
+            const rejected = rejectedHunks[path] || [];
+            accepted[path] = applyHunks(segmentsFor(path), hunkIndex => !rejected.includes(hunkIndex));
+        }
+        onApply(accepted);
+    };
+
+    const acceptedCount = paths.length - rejectedFiles.length;
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-sm z-40 flex items-center justify-center p-4">
+            <div className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-5xl max-h-full flex flex-col">
+                <div className="p-4 border-b border-slate-700">
+                    <h2 className="text-lg font-bold text-slate-200">Review Evolution</h2>
+                    <p className="text-sm text-slate-400 mt-1"><span className="text-slate-500">Goal:</span> {evolution.goal}</p>
+                    {evolution.summary && <p className="text-sm text-slate-300 mt-2">{evolution.summary}</p>}
+                    {evolution.repairAttempts !== undefined && (
+                        <p className="text-xs text-green-400 mt-2">
+                            Validated: every changed file compiles, its imports resolve{evolution.testsChecked ? ', the kernel test-boots and the tests that passed still pass' : ' and the kernel test-boots'}
+                            {evolution.repairAttempts > 0 && ' (after ' + evolution.repairAttempts + ' automatic repair attempt' + (evolution.repairAttempts > 1 ? 's' : '') + ')'}.
+                        </p>
+                    )}
+                    {evolution.actions && (
+                        <ol className="mt-2 text-xs font-mono text-slate-400 list-decimal list-inside">
+                            {evolution.actions.map((step, i) => {
+                                const edits = evolution.edits && evolution.edits[i];
+                                return (
+                                    <li key={i}>
+                                        <span className={step.action === 'DELETE' ? 'text-red-400 font-bold' : 'text-purple-300'}>{step.action}</span>
+                                        {' ' + step.filePath}
+                                        {step.action === 'RENAME' && ' → ' + step.newFilePath}
+                                        {edits && <span className="text-slate-500">{' (' + edits.length + ' edit' + (edits.length === 1 ? '' : 's') + ')'}</span>}
+                                        {edits && edits.map((edit, j) => edit.match !== 'exact' && (
+                                            <div key={j} className="ml-6 text-yellow-400">
+                                                {'edit ' + (j + 1) + ' at line ' + edit.line + ' ' + LOOSE_MATCH_LABELS[edit.match]}
+                                            </div>
+                                        ))}
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
+                    {evolution.context && (
+                        <details className="mt-2 text-sm text-slate-400">
+                            <summary className="cursor-pointer text-slate-500">
+                                Context sent to the model: {evolution.context.files.length} file{evolution.context.files.length === 1 ? '' : 's'}, about {evolution.context.tokens} tokens
+                            </summary>
+                            <ul className="mt-1 text-xs font-mono">
+                                {evolution.context.files.map(file => (
+                                    <li key={file.path}>{file.path} <span className="text-slate-500">{RELATION_LABELS[file.relation]}</span></li>
+                                ))}
+                                {evolution.context.omitted.map(file => (
+                                    <li key={file.path} className="text-slate-600 line-through" title="Over the context budget">{file.path}</li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+                    {evolution.thought && (
+                        <details className="mt-2 text-sm text-slate-400">
+                            <summary className="cursor-pointer text-slate-500">Model's reasoning</summary>
+                            <p className="mt-1 whitespace-pre-wrap">{evolution.thought}</p>
+                        </details>
+                    )}
+                </div>
+                <div className="flex-grow overflow-y-auto p-4 space-y-4">
+                    {paths.map(path => {
+                        const change = evolution.changes[path];
+                        const kind = describeChange(change);
+                        const rejected = rejectedFiles.includes(path);
+                        const warn = isBootFile(path) || kind === 'deleted';
+                        return (
+                            <div key={path} className={\`border rounded-md \${warn ? 'border-red-600' : 'border-slate-700'}\`}>
+                                <div className={\`flex items-center justify-between gap-2 px-3 py-2 \${warn ? 'bg-red-900/30' : 'bg-slate-800'}\`}>
+                                    <label className="flex items-center gap-2 cursor-pointer font-mono text-sm">
+                                        <input type="checkbox" checked={!rejected} onChange={() => toggleFile(path)} />
+                                        <span className={rejected ? 'line-through text-slate-500' : 'text-slate-200'}>{path}</span>
+                                    </label>
+                                    <div className="flex items-center gap-2 text-xs">
+                                        {isBootFile(path) && <span className="px-2 py-0.5 rounded bg-red-700 text-white font-bold">SYSTEM FILE</span>}
+                                        <span className={\`px-2 py-0.5 rounded \${kind === 'deleted' ? 'bg-red-700 text-white font-bold' : 'bg-slate-700 text-slate-300'}\`}>{kind}</span>
+                                        {change.after !== null && (
+                                            <button onClick={() => setEditingPath(editingPath === path ? null : path)} className="px-2 py-0.5 rounded text-slate-300 hover:bg-slate-700">
+                                                {editingPath === path ? 'Show diff' : 'Edit'}
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                {!rejected && (
+                                    editingPath === path ? (
+                                        <textarea
+                                            value={proposedContent(path)}
+                                            onChange={(e) => editFile(path, e.target.value)}
+                                            className="w-full h-80 bg-slate-950 text-slate-200 font-mono text-xs p-2 focus:outline-none"
+                                            spellCheck="false"
+                                            wrap="off"
+                                        />
+                                    ) : (
+                                        <DiffView
+                                            segments={segmentsFor(path)}
+                                            rejectedHunks={rejectedHunks[path] || []}
+                                            onToggleHunk={(hunkIndex) => toggleHunk(path, hunkIndex)}
+                                        />
+                                    )
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="p-4 border-t border-slate-700 flex justify-end gap-2">
+                    <button onClick={onDiscard} className="px-4 py-2 rounded-md text-slate-300 hover:bg-slate-700">
+                        Discard
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={acceptedCount === 0}
+                        className="px-4 py-2 rounded-md bg-purple-600 hover:bg-purple-700 text-white font-bold disabled:bg-purple-900 disabled:cursor-not-allowed"
+                    >
+                        Apply {acceptedCount} of {paths.length} files
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+export default EvolutionReview;
+`,
+  '/lib/diff.ts': `
+// Line-based diffing used to review evolutions before they are applied.
+// A diff is a flat list of operations, grouped into segments: runs of unchanged
+// lines and "hunks" of consecutive additions/removals that can be accepted or
+// rejected individually.
+
+export interface DiffOp {
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'change';
+  ops: DiffOp[];
+  // Index of the hunk among all change segments of the file.
+  hunkIndex?: number;
+}
+
+// Above this many cells the LCS table gets too expensive, and the diff
+// degrades to "everything removed, everything added".
+const MAX_LCS_CELLS = 4000000;
+
+const splitLines = (text) => (text === '' ? [] : text.split('\\n'));
+
+export const diffLines = (before: string, after: string): DiffOp[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Trim the common prefix and suffix; evolutions usually touch a small region.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let k = 0; k < start; k++) ops.push({ type: 'equal', text: a[k] });
+
+  const n = endA - start;
+  const m = endB - start;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) ops.push({ type: 'remove', text: a[i] });
+    for (let j = start; j < endB; j++) ops.push({ type: 'add', text: b[j] });
+  } else {
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        ops.push({ type: 'equal', text: a[start + i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        ops.push({ type: 'remove', text: a[start + i] });
+        i++;
+      } else {
+        ops.push({ type: 'add', text: b[start + j] });
+        j++;
+      }
+    }
+    for (; i < n; i++) ops.push({ type: 'remove', text: a[start + i] });
+    for (; j < m; j++) ops.push({ type: 'add', text: b[start + j] });
+  }
+
+  for (let k = endA; k < a.length; k++) ops.push({ type: 'equal', text: a[k] });
+  return ops;
+};
+
+export const toSegments = (ops: DiffOp[]): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let hunkCount = 0;
+  for (const op of ops) {
+    const type = op.type === 'equal' ? 'equal' : 'change';
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.ops.push(op);
+    } else {
+      segments.push(type === 'change' ? { type, ops: [op], hunkIndex: hunkCount++ } : { type, ops: [op] });
+    }
+  }
+  return segments;
+};
+
+/**
+ * Rebuilds a file from its segments, taking the new lines of accepted hunks
+ * and the original lines of rejected ones.
+ */
+export const applyHunks = (segments: DiffSegment[], isAccepted: (hunkIndex: number) => boolean): string => {
+  const lines = [];
+  for (const segment of segments) {
+    const keep = segment.type === 'equal'
+      ? 'equal'
+      : (isAccepted(segment.hunkIndex) ? 'add' : 'remove');
+    for (const op of segment.ops) {
+      if (op.type === keep) lines.push(op.text);
+    }
+  }
+  return lines.join('\\n');
+};
+`,
+  '/lib/sessions.ts': `
+// Evolution chat sessions, as the kernel's chat panel edits them.
+// The BIOS stores the sessions document; these helpers compute new versions of it
+// and never change one in place. A session is a tree of messages: its thread is
+// the path from the first message to its head, and moving the head to an earlier
+// message starts a branch there.
+import { diffLines, toSegments } from './diff';
+
+// Session titles are the first goal, shortened to this many characters.
+const TITLE_LENGTH = 60;
+// Applied diffs go into later prompts, so very large ones are cut.
+const MAX_DIFF_CHARS = 6000;
+
+const newId = () => \`\${Date.now().toString(36)}-\${Math.random().toString(36).slice(2, 8)}\`;
+
+export const EMPTY_SESSIONS = { version: 1, sessions: [], activeId: null };
+
+export const activeSessionOf = (sessions) => sessions.sessions.find(session => session.id === sessions.activeId) || null;
+
+/** Adds an empty session and makes it the active one. */
+export const createSession = (sessions) => {
+    const session = { id: newId(), title: 'New session', createdAt: Date.now(), messages: [], headId: null };
+    return { ...sessions, sessions: [...sessions.sessions, session], activeId: session.id };
+};
+
+export const deleteSession = (sessions, id) => {
+    const remaining = sessions.sessions.filter(session => session.id !== id);
+    const activeId = sessions.activeId === id ? (remaining.length > 0 ? remaining[remaining.length - 1].id : null) : sessions.activeId;
+    return { ...sessions, sessions: remaining, activeId };
+};
+
+export const updateSession = (sessions, id, update) => ({
+    ...sessions,
+    sessions: sessions.sessions.map(session => (session.id === id ? update(session) : session)),
+});
+
+export const createMessage = (role, text, fields = {}) => ({ id: newId(), parentId: null, role, time: Date.now(), text, ...fields });
+
+/** Appends \`message\` to the session's thread and moves the head to it. */
+export const appendMessage = (session, message) => {
+    const isFirstGoal = message.role === 'user' && !session.messages.some(m => m.role === 'user');
+    return {
+        ...session,
+        title: isFirstGoal ? message.text.slice(0, TITLE_LENGTH) : session.title,
+        messages: [...session.messages, { ...message, parentId: session.headId }],
+        headId: message.id,
+    };
+};
+
+export const updateMessage = (session, id, fields) => ({
+    ...session,
+    messages: session.messages.map(message => (message.id === id ? { ...message, ...fields } : message)),
+});
+
+/** The messages from the start of the session to \`headId\`, oldest first. */
+export const threadOf = (session, headId = session.headId) => {
+    const byId = new Map(session.messages.map(message => [message.id, message]));
+    const thread = [];
+    for (let message = byId.get(headId); message; message = byId.get(message.parentId)) thread.unshift(message);
+    return thread;
+};
+
+/** Messages with the same parent as \`message\`, itself included, oldest first. */
+export const siblingsOf = (session, message) =>
+    session.messages.filter(m => m.parentId === message.parentId).sort((a, b) => a.time - b.time);
+
+/** The end of the most recent thread through \`message\`, for switching to another branch. */
+export const latestLeafOf = (session, message) => {
+    let leaf = message;
+    for (;;) {
+        const children = session.messages.filter(m => m.parentId === leaf.id);
+        if (children.length === 0) return leaf;
+        leaf = children.reduce((latest, child) => (child.time > latest.time ? child : latest));
+    }
+};
+
+/**
+ * The applied changes as a compact diff: changed lines only, with a header per
+ * file and '@@' between hunks.
+ * @param changes { [path]: { before, after } }, null for a missing file.
+ */
+export const formatDiff = (changes) => {
+    const parts = [];
+    for (const path of Object.keys(changes).sort()) {
+        const { before, after } = changes[path];
+        if (before === after) continue;
+        const kind = before === null ? 'created' : after === null ? 'deleted' : 'modified';
+        const hunks = toSegments(diffLines(before || '', after || ''))
+            .filter(segment => segment.type === 'change')
+            .map(segment => segment.ops.map(op => \`\${op.type === 'add' ? '+' : '-'} \${op.text}\`).join('\\n'));
+        parts.push(\`--- \${path} (\${kind})\\n\${hunks.join('\\n@@\\n')}\`);
+    }
+    const diff = parts.join('\\n');
+    return diff.length > MAX_DIFF_CHARS ? \`\${diff.slice(0, MAX_DIFF_CHARS)}\\n… (diff cut)\` : diff;
+};
+`,
+  '/components/SettingsPanel.tsx': `
+const CASSETTE_MODES = [
+    { id: 'off', label: 'Off' },
+    { id: 'record', label: 'Record every response' },
+    { id: 'replay', label: 'Replay recorded responses (offline)' },
+];
+
+const KEY_STATUS_TEXT = {
+    stored: 'An API key is stored in the BIOS vault.',
+    missing: 'No API key is stored yet.',
+    locked: 'The BIOS vault is locked; unlock it to use the stored key.',
+};
+
+// Modal for the project's model settings: which provider answers evolution
+// requests, with which model and temperature. Changes are only handed to the
+// BIOS when saved; the cassette tools act on the recorded responses immediately.
+// API keys are not settings of the OS: the BIOS keeps them and only reports
+// whether one is stored.
+function SettingsPanel({ settings, providers, onSave, onClose, onOpenKeySettings, cassette, onCassetteChange }) {
+    const [draft, setDraft] = React.useState(settings);
+    const [mockText, setMockText] = React.useState(JSON.stringify(settings.mockResponses, null, 2));
+    const [error, setError] = React.useState(null);
+
+    const update = (field, value) => setDraft(prev => ({ ...prev, [field]: value }));
+    const draftProvider = providers.find(p => p.id === draft.provider);
+
+    const handleCassetteDownload = () => {
+        const blob = new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'evolution-cassette.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleCassetteLoad = async (e) => {
+        const file = e.target.files[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onCassetteChange(JSON.parse(await file.text()));
+            setError(null);
+        } catch (err) {
+            setError(\`Cassette: \${err.message}\`);
+        }
+    };
+
+    const handleCassetteClear = () => {
+        if (window.confirm(\`Delete all \${cassette.entries.length} recorded responses?\`)) {
+            onCassetteChange({ version: 1, entries: [] });
+        }
+    };
+
+    const handleProviderChange = (providerId) => {
+        const provider = providers.find(p => p.id === providerId);
+        setDraft(prev => ({ ...prev, provider: providerId, model: provider ? provider.defaultModel : prev.model }));
+    };
+
+    const handleSave = () => {
+        let mockResponses = draft.mockResponses;
+        if (draft.provider === 'mock') {
+            try {
+                const parsed = JSON.parse(mockText || '[]');
+                if (!Array.isArray(parsed)) throw new Error('Expected a JSON array.');
+                // Each entry is one model response; objects are stored as their JSON text.
+                mockResponses = parsed.map(item => typeof item === 'string' ? item : JSON.stringify(item));
+            } catch (e) {
+                setError(\`Mock responses: \${e.message}\`);
+                return;
+            }
+        }
+        const timeoutSeconds = Number(draft.timeoutSeconds);
+        const maxRetries = Number(draft.maxRetries);
+        if (!(timeoutSeconds > 0) || !Number.isInteger(maxRetries) || maxRetries < 0) {
+            setError('The timeout must be a positive number of seconds and the retries a whole number.');
+            return;
+        }
+        const contextTokenBudget = Number(draft.contextTokenBudget);
+        if (!Number.isInteger(contextTokenBudget) || contextTokenBudget < 0) {
+            setError('The context budget must be a whole number of tokens.');
+            return;
+        }
+        const agentMaxSteps = Number(draft.agentMaxSteps);
+        if (!Number.isInteger(agentMaxSteps) || agentMaxSteps < 1) {
+            setError('The agent step limit must be a whole number of at least 1.');
+            return;
+        }
+        onSave({ ...draft, temperature: Number(draft.temperature), timeoutSeconds, maxRetries, contextTokenBudget, agentMaxSteps, mockResponses });
+        onClose();
+    };
+
+    const inputClass = "w-full bg-slate-700 border border-slate-600 rounded-md p-2 text-slate-200 text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+    const labelClass = "block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1";
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-sm z-40 flex items-center justify-center p-4">
+            <div className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-lg max-h-full flex flex-col">
+                <div className="p-4 border-b border-slate-700">
+                    <h2 className="text-lg font-bold text-slate-200">Model Settings</h2>
+                </div>
+                <div className="flex-grow overflow-y-auto p-4 space-y-4">
+                    <div>
+                        <label className={labelClass} htmlFor="llm-provider">Provider</label>
+                        <select id="llm-provider" value={draft.provider} onChange={(e) => handleProviderChange(e.target.value)} className={inputClass}>
+                            {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                    </div>
+                    {draft.provider !== 'mock' && (
+                        <div>
+                            <label className={labelClass} htmlFor="llm-model">Model</label>
+                            <input id="llm-model" type="text" value={draft.model} onChange={(e) => update('model', e.target.value)} className={inputClass} />
+                        </div>
+                    )}
+                    {draft.provider !== 'mock' && (
+                        <div>
+                            <label className={labelClass} htmlFor="llm-temperature">Temperature: {draft.temperature}</label>
+                            <input id="llm-temperature" type="range" min="0" max="2" step="0.05" value={draft.temperature} onChange={(e) => update('temperature', Number(e.target.value))} className="w-full" />
+                        </div>
+                    )}
+                    {draft.provider !== 'mock' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className={labelClass} htmlFor="llm-timeout">Timeout (seconds)</label>
+                                <input id="llm-timeout" type="number" min="5" value={draft.timeoutSeconds} onChange={(e) => update('timeoutSeconds', e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass} htmlFor="llm-retries">Retries</label>
+                                <input id="llm-retries" type="number" min="0" max="10" value={draft.maxRetries} onChange={(e) => update('maxRetries', e.target.value)} className={inputClass} />
+                            </div>
+                            <p className="col-span-2 text-xs text-slate-500 -mt-2">Rate limits (429) and server errors (5xx) are retried with exponential backoff.</p>
+                        </div>
+                    )}
+                    <div>
+                        <label className={labelClass} htmlFor="llm-context-budget">Context Budget (tokens)</label>
+                        <input id="llm-context-budget" type="number" min="0" step="1000" value={draft.contextTokenBudget} onChange={(e) => update('contextTokenBudget', e.target.value)} className={inputClass} />
+                        <p className="text-xs text-slate-500 mt-1">How much of the files the target imports, and of those importing it, each evolution shows the model. Nearer files are included first.</p>
+                    </div>
+                    <div>
+                        <label className={labelClass} htmlFor="llm-edit-format">File Changes</label>
+                        <select id="llm-edit-format" value={draft.editFormat} onChange={(e) => update('editFormat', e.target.value)} className={inputClass}>
+                            <option value="patch">Search/replace edits</option>
+                            <option value="full">Whole files</option>
+                        </select>
+                        <p className="text-xs text-slate-500 mt-1">Edits keep responses short for large files; the model can still rewrite a file when that is simpler. Whole files suit models that do not copy code exactly.</p>
+                    </div>
+                    <div>
+                        <label className={labelClass} htmlFor="llm-agent-steps">Agent Step Limit</label>
+                        <input id="llm-agent-steps" type="number" min="1" max="50" value={draft.agentMaxSteps} onChange={(e) => update('agentMaxSteps', e.target.value)} className={inputClass} />
+                        <p className="text-xs text-slate-500 mt-1">How many changes an agent run may apply, fixes included, before it stops.</p>
+                    </div>
+                    <div>
+                        <label className="flex items-center gap-2 text-sm text-slate-300" htmlFor="llm-test-gate">
+                            <input id="llm-test-gate" type="checkbox" checked={!!draft.testGate} onChange={(e) => update('testGate', e.target.checked)} />
+                            Reject evolutions that make passing tests fail
+                        </label>
+                        <p className="text-xs text-slate-500 mt-1">Runs the /tests files before and after each proposal; tests that stop passing go back to the model for repair, like a failed test-boot.</p>
+                    </div>
+                    {draft.provider === 'openai' && (
+                        <div>
+                            <label className={labelClass} htmlFor="llm-base-url">Base URL</label>
+                            <input id="llm-base-url" type="text" value={draft.baseUrl} onChange={(e) => update('baseUrl', e.target.value)} className={inputClass} />
+                            <p className="text-xs text-slate-500 mt-1">Any OpenAI-compatible endpoint, e.g. a local llama.cpp or Ollama server.</p>
+                        </div>
+                    )}
+                    {draftProvider && draftProvider.keyRequirement !== 'none' && (
+                        <div>
+                            <span className={labelClass}>API Key</span>
+                            <div className="flex items-center justify-between gap-2">
+                                <p className={\`text-sm \${draftProvider.keyStatus === 'stored' ? 'text-slate-300' : draftProvider.keyRequirement === 'required' ? 'text-yellow-300' : 'text-slate-400'}\`}>
+                                    {KEY_STATUS_TEXT[draftProvider.keyStatus]}
+                                    {draftProvider.keyRequirement === 'optional' && draftProvider.keyStatus === 'missing' && ' Local servers usually need none.'}
+                                </p>
+                                {onOpenKeySettings && (
+                                    <button onClick={() => onOpenKeySettings()} className="flex-shrink-0 px-3 py-1 rounded-md text-xs text-slate-200 bg-slate-700 hover:bg-slate-600">
+                                        Manage Keys…
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    {draft.provider === 'mock' && (
+                        <div>
+                            <label className={labelClass} htmlFor="llm-mock">Scripted Responses</label>
+                            <textarea
+                                id="llm-mock"
+                                value={mockText}
+                                onChange={(e) => { setMockText(e.target.value); setError(null); }}
+                                className={\`\${inputClass} h-48 font-mono text-xs\`}
+                                spellCheck="false"
+                            />
+                            <p className="text-xs text-slate-500 mt-1">A JSON array; each request consumes the next response in order.</p>
+                        </div>
+                    )}
+                    {cassette && (
+                        <div className="border-t border-slate-700 pt-4">
+                            <label className={labelClass} htmlFor="llm-cassette">Cassette</label>
+                            <select id="llm-cassette" value={draft.cassetteMode} onChange={(e) => update('cassetteMode', e.target.value)} className={inputClass}>
+                                {CASSETTE_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                            </select>
+                            <p className="text-xs text-slate-500 mt-1">
+                                {cassette.entries.length} recorded response{cassette.entries.length === 1 ? '' : 's'}.
+                                Replay answers each prompt from its recording without contacting the provider.
+                            </p>
+                            <div className="flex gap-2 mt-2">
+                                <button onClick={handleCassetteDownload} className="px-3 py-1 rounded-md text-xs text-slate-200 bg-slate-700 hover:bg-slate-600">
+                                    Download
+                                </button>
+                                <label className="px-3 py-1 rounded-md text-xs text-slate-200 bg-slate-700 hover:bg-slate-600 cursor-pointer">
+                                    Load…
+                                    <input type="file" accept="application/json,.json" onChange={handleCassetteLoad} className="hidden" />
+                                </label>
+                                <button onClick={handleCassetteClear} disabled={cassette.entries.length === 0} className="px-3 py-1 rounded-md text-xs text-red-300 hover:bg-red-900/40 disabled:opacity-40">
+                                    Clear
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                </div>
+                <div className="p-4 border-t border-slate-700 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md text-slate-300 hover:bg-slate-700">
+                        Cancel
+                    </button>
+                    <button onClick={handleSave} className="px-4 py-2 rounded-md bg-purple-600 hover:bg-purple-700 text-white font-bold">
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+export default SettingsPanel;
+`,
+  '/components/StorageIndicator.tsx': `
+const formatBytes = (bytes) => {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+
+// Compact readout of how much space the project takes and whether every change
+// has been written to the browser's storage: the files, and the BIOS's documents
+// such as the history. Storage problems, such as a full quota, are also spelled
+// out in a notice at the bottom of the screen.
+function StorageIndicator({ status }) {
+    if (!status) {
+        return null;
+    }
+
+    const error = status.error || status.documentError;
+    let state;
+    let stateClass;
+    if (error) {
+        state = status.backend === 'memory' ? 'Not saved' : 'Save failed';
+        stateClass = 'text-red-400';
+    } else if (status.pendingWrites > 0) {
+        state = 'Saving…';
+        stateClass = 'text-slate-400';
+    } else {
+        state = 'Saved';
+        stateClass = 'text-green-400';
+    }
+
+    const hasQuota = status.usedBytes !== null && status.quotaBytes;
+    const usedPercent = hasQuota ? Math.min(100, (status.usedBytes / status.quotaBytes) * 100) : 0;
+    const details = [
+        \`Project files: \${formatBytes(status.projectBytes)}\`,
+        hasQuota && \`Browser storage: \${formatBytes(status.usedBytes)} of \${formatBytes(status.quotaBytes)} used\`,
+        status.error,
+        status.documentError,
+    ].filter(Boolean).join('\\n');
+
+    return (
+        <div className="flex items-center gap-2 text-xs" title={details}>
+            <span className="text-slate-400">{formatBytes(status.projectBytes)}</span>
+            {hasQuota && (
+                <div className="w-16 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                        className={\`h-full \${usedPercent > 90 ? 'bg-red-500' : 'bg-purple-500'}\`}
+                        style={{ width: \`\${Math.max(usedPercent, 1)}%\` }}
+                    />
+                </div>
+            )}
+            <span className={stateClass}>{state}</span>
+            {error && (
+                <div className="fixed bottom-4 left-4 max-w-md z-30 bg-red-900/90 border border-red-700 text-red-200 text-sm text-left px-4 py-3 rounded-lg shadow-lg">
+                    {status.error && <p>{status.error}</p>}
+                    {status.documentError && <p>{status.documentError}</p>}
+                </div>
+            )}
+        </div>
+    );
+}
+export default StorageIndicator;
+`,
   '/components/EvolveIcon.tsx': `
 const EvolveIcon = ({ className }) => (
   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
@@ -487,6 +3768,84 @@ const EvolveIcon = ({ className }) => (
 );
 export default EvolveIcon;
   `,
+  '/components/LivePreview.tsx': `import { isScriptFile, precompile, transpile } from '../boot/lib/loader';
+import { withSourceMap } from '../boot/lib/sourceMap';
+
+const ENTRY_POINT = '/index.tsx';
+
+// The OS's own files are not part of the app being previewed.
+const isAppModule = (path) => isScriptFile(path) && !path.startsWith('/boot/') && !path.startsWith('/tests/');
+
+// Runs the project's app (/index.tsx and /index.html) in a sandboxed iframe.
+// The iframe has an opaque origin: the BIOS preview service sends it the compiled
+// modules and answers its AI requests, so it never sees the IDE's window, storage or key.
+function LivePreview({ files, compiler, preview }) {
+    const iframeRef = React.useRef(null);
+    const [error, setError] = React.useState(null);
+    // The latest successful build. Every build gets a fresh iframe.
+    const [build, setBuild] = React.useState(null);
+    const hasEntryPoint = files.hasOwnProperty(ENTRY_POINT);
+
+    React.useEffect(() => {
+        if (!hasEntryPoint) return;
+        // Set when the files change again before this build is ready.
+        let stale = false;
+        const paths = Object.keys(files).filter(isAppModule);
+        precompile(files, compiler, paths).then(() => {
+            if (stale) return;
+            const modules = {};
+            for (const path of paths) {
+                const { code, map } = transpile(path, files[path]);
+                modules[path] = withSourceMap(code, map, path, files[path]);
+            }
+            setError(null);
+            setBuild(previous => ({
+                id: (previous ? previous.id : 0) + 1,
+                boot: { modules, entryPoint: ENTRY_POINT },
+                srcDoc: preview.createDocument(files['/index.html'] || '<body></body>'),
+            }));
+        }).catch(e => {
+            if (!stale) setError(e.message);
+        });
+        return () => { stale = true; };
+    }, [files, compiler, preview, hasEntryPoint]);
+
+    React.useEffect(() => {
+        const iframe = iframeRef.current;
+        if (!build || !iframe) return;
+        return preview.connect(iframe, { boot: build.boot, onError: setError });
+    }, [build, preview]);
+
+    if (!hasEntryPoint) {
+        return (
+            <div className="flex-grow flex items-center justify-center text-sm text-slate-500">
+                Add {ENTRY_POINT} (and optionally /index.html) to preview an app.
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex-grow relative bg-white">
+            {error && (
+                <div className="absolute inset-0 z-10 overflow-auto bg-red-100 p-4 text-red-800">
+                    <h3 className="mb-2 font-bold">Execution Error:</h3>
+                    <pre className="whitespace-pre-wrap text-sm">{error}</pre>
+                </div>
+            )}
+            <iframe
+                key={build ? build.id : 0}
+                ref={iframeRef}
+                title="Live Preview"
+                className="absolute inset-0 w-full h-full border-0"
+                srcDoc={build ? build.srcDoc : undefined}
+                // No allow-same-origin: the previewed app must not reach the IDE's window or storage.
+                sandbox="allow-scripts"
+            />
+        </div>
+    );
+}
+export default LivePreview;
+`,
 '/components/LoadingSpinner.tsx': `
 const LoadingSpinner = () => (
   <svg
@@ -511,5 +3870,83 @@ const LoadingSpinner = () => (
   </svg>
 );
 export default LoadingSpinner;
+`,
+  '/tests/ChatPanel.test.tsx': `import { describe, it, expect, render } from '@test';
+import ChatPanel from '../components/ChatPanel';
+import { EMPTY_SESSIONS } from '../lib/sessions';
+
+const noop = () => {};
+
+describe('ChatPanel', () => {
+    it('names the file the goal is for', () => {
+        const { getByText } = render(
+            <ChatPanel sessions={EMPTY_SESSIONS} onSessionsChange={noop} activeFile="/boot/kernel.tsx" goal="" onGoalChange={noop} onSend={noop} isLoading={false} />
+        );
+        expect(getByText('Evolution Goal for').textContent).toContain('/boot/kernel.tsx');
+    });
+
+    it('starts a new session', () => {
+        let sessions = EMPTY_SESSIONS;
+        const { click } = render(
+            <ChatPanel sessions={sessions} onSessionsChange={(next) => { sessions = next; }} activeFile="/boot/kernel.tsx" goal="" onGoalChange={noop} onSend={noop} isLoading={false} />
+        );
+        click('New');
+        expect(sessions.sessions).toHaveLength(1);
+        expect(sessions.activeId).toBe(sessions.sessions[0].id);
+    });
+
+    it('offers agent mode only when it can be switched', () => {
+        const { queryByText } = render(
+            <ChatPanel sessions={EMPTY_SESSIONS} onSessionsChange={noop} activeFile="/boot/kernel.tsx" goal="" onGoalChange={noop} onSend={noop} isLoading={false} />
+        );
+        expect(queryByText('Agent')).toBeNull();
+    });
+});
+`,
+  '/tests/diff.test.tsx': `import { describe, it, expect } from '@test';
+import { diffLines, toSegments, applyHunks } from '../lib/diff';
+
+describe('diffLines', () => {
+    it('marks unchanged lines as equal', () => {
+        expect(diffLines('a\\nb', 'a\\nb')).toEqual([{ type: 'equal', text: 'a' }, { type: 'equal', text: 'b' }]);
+    });
+
+    it('finds a changed line between unchanged ones', () => {
+        const types = diffLines('a\\nb\\nc', 'a\\nx\\nc').map(op => op.type);
+        expect(types).toEqual(['equal', 'remove', 'add', 'equal']);
+    });
+});
+
+describe('applyHunks', () => {
+    const segments = toSegments(diffLines('a\\nb\\nc\\nd', 'a\\nB\\nc\\nD'));
+
+    it('numbers the hunks', () => {
+        expect(segments.filter(segment => segment.type === 'change').map(segment => segment.hunkIndex)).toEqual([0, 1]);
+    });
+
+    it('keeps only the accepted hunks', () => {
+        expect(applyHunks(segments, () => true)).toBe('a\\nB\\nc\\nD');
+        expect(applyHunks(segments, (hunk) => hunk === 1)).toBe('a\\nb\\nc\\nD');
+    });
+});
+`,
+  '/tests/validate.test.tsx': `import { describe, it, expect, files, compiler } from '@test';
+import { findCompileProblems } from '../boot/lib/validate';
+
+const BOOTLOADER_PATH = '/boot/bootloader.tsx';
+
+describe('findCompileProblems', () => {
+    it('accepts the unchanged bootloader', async () => {
+        // Only the bootloader differs, so it is the one file compiled.
+        const currentFiles = { ...files, [BOOTLOADER_PATH]: '' };
+        expect(await findCompileProblems(currentFiles, files, compiler)).toEqual([]);
+    });
+
+    it('reports a file that does not compile', async () => {
+        const problems = await findCompileProblems(files, { ...files, '/lib/broken.ts': 'const = 1;' }, compiler);
+        expect(problems).toHaveLength(1);
+        expect(problems[0]).toMatch('/lib/broken.ts');
+    });
+});
 `
 };
\ No newline at end of file